@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN `slug` VARCHAR(191) NULL;
+
+-- Backfill slugs for existing posts so the column can be made required
+UPDATE `Post` SET `slug` = CONCAT('post-', `id`) WHERE `slug` IS NULL;
+
+-- AlterTable
+ALTER TABLE `Post` MODIFY `slug` VARCHAR(191) NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `Post_slug_key` ON `Post`(`slug`);
+
+-- CreateTable
+CREATE TABLE `PostSlugHistory` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `slug` VARCHAR(191) NOT NULL,
+    `postId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `PostSlugHistory_slug_key`(`slug`),
+    INDEX `PostSlugHistory_postId_idx`(`postId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostSlugHistory` ADD CONSTRAINT `PostSlugHistory_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
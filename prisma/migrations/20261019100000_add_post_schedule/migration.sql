@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN `publishAt` DATETIME(3) NULL,
+    ADD COLUMN `unpublishAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `Post_publishAt_idx` ON `Post`(`publishAt`);
+
+-- CreateIndex
+CREATE INDEX `Post_unpublishAt_idx` ON `Post`(`unpublishAt`);
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN `status` ENUM('draft', 'in_review', 'approved', 'published', 'archived') NOT NULL DEFAULT 'draft';
+
+-- Carry over the published flag before dropping it
+UPDATE `Post` SET `status` = 'published' WHERE `published` = true;
+
+-- DropIndex
+DROP INDEX `Post_published_idx` ON `Post`;
+
+-- AlterTable
+ALTER TABLE `Post` DROP COLUMN `published`;
+
+-- CreateIndex
+CREATE INDEX `Post_status_idx` ON `Post`(`status`);
+
+-- CreateTable
+CREATE TABLE `PostStatusTransition` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `fromStatus` ENUM('draft', 'in_review', 'approved', 'published', 'archived') NOT NULL,
+    `toStatus` ENUM('draft', 'in_review', 'approved', 'published', 'archived') NOT NULL,
+    `actorId` INTEGER NULL,
+    `reason` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `PostStatusTransition_postId_idx`(`postId`),
+    INDEX `PostStatusTransition_actorId_idx`(`actorId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostStatusTransition` ADD CONSTRAINT `PostStatusTransition_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostStatusTransition` ADD CONSTRAINT `PostStatusTransition_actorId_fkey` FOREIGN KEY (`actorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `PostReaction` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `type` ENUM('like', 'love', 'insightful', 'celebrate', 'funny') NOT NULL,
+    `postId` INTEGER NOT NULL,
+    `userId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `PostReaction_userId_createdAt_idx`(`userId`, `createdAt`),
+    UNIQUE INDEX `PostReaction_postId_userId_type_key`(`postId`, `userId`, `type`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostReaction` ADD CONSTRAINT `PostReaction_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostReaction` ADD CONSTRAINT `PostReaction_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
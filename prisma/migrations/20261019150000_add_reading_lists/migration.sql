@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE `ReadingList` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `isDefault` BOOLEAN NOT NULL DEFAULT false,
+    `shareToken` VARCHAR(191) NULL,
+    `userId` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `ReadingList_shareToken_key`(`shareToken`),
+    UNIQUE INDEX `ReadingList_userId_name_key`(`userId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ReadingListItem` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `listId` INTEGER NOT NULL,
+    `postId` INTEGER NOT NULL,
+    `position` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ReadingListItem_listId_position_idx`(`listId`, `position`),
+    INDEX `ReadingListItem_postId_idx`(`postId`),
+    UNIQUE INDEX `ReadingListItem_listId_postId_key`(`listId`, `postId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ReadingList` ADD CONSTRAINT `ReadingList_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReadingListItem` ADD CONSTRAINT `ReadingListItem_listId_fkey` FOREIGN KEY (`listId`) REFERENCES `ReadingList`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ReadingListItem` ADD CONSTRAINT `ReadingListItem_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
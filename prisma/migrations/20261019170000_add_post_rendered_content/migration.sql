@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN `contentHtml` MEDIUMTEXT NULL,
+    ADD COLUMN `excerpt` VARCHAR(300) NULL,
+    ADD COLUMN `readingTime` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `toc` JSON NULL,
+    ADD COLUMN `wordCount` INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `Post` ADD COLUMN `deletedAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `Post_deletedAt_idx` ON `Post`(`deletedAt`);
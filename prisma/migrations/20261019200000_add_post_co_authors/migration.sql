@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE `PostAuthor` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `userId` INTEGER NOT NULL,
+    `role` ENUM('owner', 'contributor') NOT NULL DEFAULT 'contributor',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `PostAuthor_userId_idx`(`userId`),
+    UNIQUE INDEX `PostAuthor_postId_userId_key`(`postId`, `userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PostAuthorInvitation` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `inviteeId` INTEGER NOT NULL,
+    `inviterId` INTEGER NOT NULL,
+    `status` ENUM('pending', 'accepted', 'declined') NOT NULL DEFAULT 'pending',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `respondedAt` DATETIME(3) NULL,
+
+    INDEX `PostAuthorInvitation_inviteeId_status_idx`(`inviteeId`, `status`),
+    INDEX `PostAuthorInvitation_inviterId_idx`(`inviterId`),
+    UNIQUE INDEX `PostAuthorInvitation_postId_inviteeId_key`(`postId`, `inviteeId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostAuthor` ADD CONSTRAINT `PostAuthor_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostAuthor` ADD CONSTRAINT `PostAuthor_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostAuthorInvitation` ADD CONSTRAINT `PostAuthorInvitation_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostAuthorInvitation` ADD CONSTRAINT `PostAuthorInvitation_inviteeId_fkey` FOREIGN KEY (`inviteeId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `PostAuthorInvitation` ADD CONSTRAINT `PostAuthorInvitation_inviterId_fkey` FOREIGN KEY (`inviterId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing post is owned by its author
+INSERT INTO `PostAuthor` (`postId`, `userId`, `role`, `createdAt`)
+SELECT `id`, `authorId`, 'owner', `createdAt` FROM `Post`;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE `PostViewBucket` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `hour` DATETIME(3) NOT NULL,
+    `views` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `PostViewBucket_hour_idx`(`hour`),
+    UNIQUE INDEX `PostViewBucket_postId_hour_key`(`postId`, `hour`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `TrendingPostScore` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `windowHours` INTEGER NOT NULL,
+    `score` DOUBLE NOT NULL,
+    `computedAt` DATETIME(3) NOT NULL,
+
+    INDEX `TrendingPostScore_windowHours_score_idx`(`windowHours`, `score`),
+    INDEX `TrendingPostScore_postId_idx`(`postId`),
+    UNIQUE INDEX `TrendingPostScore_windowHours_postId_key`(`windowHours`, `postId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostViewBucket` ADD CONSTRAINT `PostViewBucket_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `TrendingPostScore` ADD CONSTRAINT `TrendingPostScore_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
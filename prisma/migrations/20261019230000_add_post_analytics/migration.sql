@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `PostViewEvent` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `viewedAt` DATETIME(3) NOT NULL,
+    `referrer` VARCHAR(255) NOT NULL DEFAULT '',
+    `deviceClass` ENUM('desktop', 'mobile', 'tablet', 'unknown') NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `PostDailyView` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `day` DATE NOT NULL,
+    `referrer` VARCHAR(255) NOT NULL DEFAULT '',
+    `deviceClass` ENUM('desktop', 'mobile', 'tablet', 'unknown') NOT NULL,
+    `views` INTEGER NOT NULL DEFAULT 0,
+
+    UNIQUE INDEX `PostDailyView_postId_day_referrer_deviceClass_key`(`postId`, `day`, `referrer`, `deviceClass`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostDailyView` ADD CONSTRAINT `PostDailyView_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `PostTranslation` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `postId` INTEGER NOT NULL,
+    `locale` VARCHAR(10) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `content` TEXT NOT NULL,
+    `contentHtml` MEDIUMTEXT NULL,
+    `excerpt` VARCHAR(300) NULL,
+    `wordCount` INTEGER NOT NULL DEFAULT 0,
+    `readingTime` INTEGER NOT NULL DEFAULT 0,
+    `toc` JSON NULL,
+    `published` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `PostTranslation_postId_locale_key`(`postId`, `locale`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `PostTranslation` ADD CONSTRAINT `PostTranslation_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `Post`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -5,6 +5,15 @@ import { AppService } from './app.service';
 import { UsersModule } from './users/users.module';
 import { CategoriesModule } from './categories/categories.module';
 import { PostsModule } from './posts/posts.module';
+import { CommentsModule } from './comments/comments.module';
+import { CoAuthorsModule } from './co-authors/co-authors.module';
+import { ReadingListsModule } from './reading-lists/reading-lists.module';
+import { TagsModule } from './tags/tags.module';
+import { SeriesModule } from './series/series.module';
+import { MediaModule } from './media/media.module';
+import { FeedsModule } from './feeds/feeds.module';
+import { SitemapModule } from './sitemap/sitemap.module';
+import { ImportExportModule } from './import-export/import-export.module';
 import { HealthController } from './health/healthController';
 import { AuthModule } from './auth/auth.module';
 import { ConfigModule } from '@nestjs/config';
@@ -26,6 +35,15 @@ import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
     UsersModule,
     PostsModule,
     CategoriesModule,
+    TagsModule,
+    SeriesModule,
+    CommentsModule,
+    CoAuthorsModule,
+    ReadingListsModule,
+    MediaModule,
+    FeedsModule,
+    SitemapModule,
+    ImportExportModule,
     PrismaModule,
     AuthModule,
   ],
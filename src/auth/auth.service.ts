@@ -280,11 +280,12 @@ export class AuthService {
       select: {
         ...this.userSelect,
         posts: {
+          where: { deletedAt: null },
           select: {
             id: true,
             title: true,
             content: true,
-            published: true,
+            status: true,
             viewCount: true,
             createdAt: true,
             updatedAt: true,
@@ -24,10 +24,21 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       context.getHandler(), // check method level decorator
       context.getClass(), // check controller level decorator
     ]);
-    if (isPublic) return true; // Skip authentication for public routes
+    if (isPublic) return this.tryAuthenticate(context); // Skip required authentication for public routes
     return super.canActivate(context);
   }
 
+  // On public routes a valid token still identifies the user (e.g. to dedupe post views)
+  // while a missing or invalid token just means an anonymous visitor
+  private async tryAuthenticate(context: ExecutionContext): Promise<boolean> {
+    try {
+      await super.canActivate(context);
+    } catch {
+      // anonymous visitor
+    }
+    return true;
+  }
+
   handleRequest<TUser = any>(
     err: any,
     user: any,
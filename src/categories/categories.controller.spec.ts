@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { CategoriesController } from './categories.controller';
 import { CategoriesService } from './categories.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
 
 describe('CategoriesController', () => {
   let controller: CategoriesController;
@@ -16,11 +17,14 @@ describe('CategoriesController', () => {
     },
   };
 
+  const mockSitemapService = { invalidate: jest.fn() };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [CategoriesController],
       providers: [
         CategoriesService,
+        { provide: SitemapService, useValue: mockSitemapService },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -8,10 +8,10 @@ import {
   Delete,
   ParseIntPipe,
   Query,
-  DefaultValuePipe,
   HttpCode,
   HttpStatus,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
 import { CategoriesService } from './categories.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
@@ -20,6 +20,8 @@ import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { Roles } from 'src/auth/decorators/roles.decorator';
 import { UserRole } from '@prisma/client';
 import { Public } from 'src/auth/decorators/public.decorator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
 
 @Controller('categories')
 export class CategoriesController {
@@ -39,12 +41,10 @@ export class CategoriesController {
   // GET ALL CATEGORIES
   @Public()
   @Get()
-  // GET ALL CATEGORIES (supports pagination)
-  findAll(
-    @Query('skip', new DefaultValuePipe(0), ParseIntPipe) skip?: number,
-    @Query('take', new DefaultValuePipe(10), ParseIntPipe) take?: number,
-  ) {
-    return this.categoriesService.findAll();
+  @UseInterceptors(PaginationLinksInterceptor)
+  // GET ALL CATEGORIES (supports offset or cursor pagination)
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.categoriesService.findAll(query);
   }
 
   // GET A SINGLE CATEGORY
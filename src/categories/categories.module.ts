@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
+import { SitemapModule } from '../sitemap/sitemap.module';
 import { CategoriesService } from './categories.service';
 import { CategoriesController } from './categories.controller';
 
 @Module({
+  imports: [SitemapModule],
   controllers: [CategoriesController],
   providers: [CategoriesService],
 })
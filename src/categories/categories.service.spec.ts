@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { PostStatus } from '@prisma/client';
 import { CategoriesService } from './categories.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
 
 describe('CategoriesService', () => {
   let service: CategoriesService;
@@ -13,12 +15,16 @@ describe('CategoriesService', () => {
       update: jest.fn(),
       delete: jest.fn(),
     },
+    $transaction: jest.fn(),
   };
 
+  const mockSitemapService = { invalidate: jest.fn() };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CategoriesService,
+        { provide: SitemapService, useValue: mockSitemapService },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -32,4 +38,40 @@ describe('CategoriesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('only lists the published posts of a category', async () => {
+    mockPrismaService.category.findUnique.mockResolvedValue({
+      id: 1,
+      name: 'News',
+      posts: [],
+    });
+
+    await service.findOne(1);
+
+    expect(mockPrismaService.category.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        select: expect.objectContaining({
+          posts: expect.objectContaining({
+            where: { status: PostStatus.PUBLISHED, deletedAt: null },
+          }) as object,
+        }) as object,
+      }),
+    );
+  });
+
+  it('drops the cached sitemap when a category is deleted', async () => {
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    mockPrismaService.category.findUnique.mockResolvedValue({
+      id: 1,
+      posts: [],
+    });
+    mockPrismaService.category.delete.mockResolvedValue({ id: 1 });
+
+    await service.removeAndDisconnect(1);
+
+    expect(mockSitemapService.invalidate).toHaveBeenCalled();
+  });
 });
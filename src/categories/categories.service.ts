@@ -8,10 +8,17 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { PostStatus } from '@prisma/client';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/pagination';
+import { SitemapService } from '../sitemap/sitemap.service';
 
 @Injectable()
 export class CategoriesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private sitemapService: SitemapService,
+  ) {}
   // CREATE CATEGORY
   async create(createCategoryDto: CreateCategoryDto) {
     try {
@@ -39,17 +46,23 @@ export class CategoriesService {
     }
   }
 
-  // GET ALL CATEGORIES
-  async findAll() {
-    return this.prisma.category.findMany({
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        _count: { select: { posts: true } },
-      },
-      orderBy: { name: 'asc' },
-    });
+  // GET ALL CATEGORIES (supports offset or cursor pagination)
+  async findAll(query: PaginationQueryDto) {
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.category.findMany({
+          ...page,
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            _count: { select: { posts: true } },
+          },
+          orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        }),
+      () => this.prisma.category.count(),
+    );
   }
 
   // GET A SINGLE CATEGORY
@@ -60,7 +73,9 @@ export class CategoriesService {
         id: true,
         name: true,
         description: true,
+        // Readers only see the published posts of a category
         posts: {
+          where: { status: PostStatus.PUBLISHED, deletedAt: null },
           select: {
             id: true,
             title: true,
@@ -126,7 +141,7 @@ export class CategoriesService {
   // DELETE A CATEGORY
   async removeAndDisconnect(id: number) {
     try {
-      return await this.prisma.$transaction(async (prisma) => {
+      const category = await this.prisma.$transaction(async (prisma) => {
         const deleteCategory = await prisma.category.findUnique({
           where: { id },
           include: {
@@ -170,6 +185,8 @@ export class CategoriesService {
           select: { id: true, name: true },
         });
       });
+      this.sitemapService.invalidate();
+      return category;
     } catch (error: any) {
       if (error instanceof NotFoundException) throw error;
       if (
@@ -0,0 +1,33 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CoAuthorsController } from './co-authors.controller';
+import { CoAuthorsService } from './co-authors.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('CoAuthorsController', () => {
+  let controller: CoAuthorsController;
+
+  const mockPrismaService = {
+    post: { findUnique: jest.fn() },
+    postAuthor: { findMany: jest.fn() },
+    postAuthorInvitation: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CoAuthorsController],
+      providers: [
+        CoAuthorsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<CoAuthorsController>(CoAuthorsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
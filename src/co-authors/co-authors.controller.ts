@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { CoAuthorsService } from './co-authors.service';
+import { InviteCoAuthorDto } from './dto/invite-co-author.dto';
+import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller()
+export class CoAuthorsController {
+  constructor(private readonly coAuthorsService: CoAuthorsService) {}
+
+  // GET THE AUTHORS AND PENDING INVITATIONS OF A POST
+  @Get('posts/:postId/co-authors')
+  findForPost(
+    @Param('postId', ParseIntPipe) postId: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.coAuthorsService.findForPost(postId, user.id, user.role);
+  }
+
+  // INVITE A USER TO CO-AUTHOR A POST
+  @Post('posts/:postId/co-authors/invitations')
+  @HttpCode(HttpStatus.CREATED)
+  invite(
+    @Param('postId', ParseIntPipe) postId: number,
+    @Body() inviteCoAuthorDto: InviteCoAuthorDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.coAuthorsService.invite(
+      postId,
+      inviteCoAuthorDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  // WITHDRAW A PENDING INVITATION
+  @Delete('posts/:postId/co-authors/invitations/:invitationId')
+  revokeInvitation(
+    @Param('postId', ParseIntPipe) postId: number,
+    @Param('invitationId', ParseIntPipe) invitationId: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.coAuthorsService.revokeInvitation(
+      postId,
+      invitationId,
+      user.id,
+      user.role,
+    );
+  }
+
+  // REMOVE A CO-AUTHOR (or leave a post you co-author)
+  @Delete('posts/:postId/co-authors/:userId')
+  removeAuthor(
+    @Param('postId', ParseIntPipe) postId: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.coAuthorsService.removeAuthor(
+      postId,
+      userId,
+      user.id,
+      user.role,
+    );
+  }
+
+  // GET MY PENDING CO-AUTHOR INVITATIONS
+  @Get('me/co-author-invitations')
+  findMyInvitations(@CurrentUser() user: { id: number }) {
+    return this.coAuthorsService.findMyInvitations(user.id);
+  }
+
+  // ACCEPT A CO-AUTHOR INVITATION
+  @Post('me/co-author-invitations/:id/accept')
+  @HttpCode(HttpStatus.OK)
+  accept(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.coAuthorsService.accept(id, user.id);
+  }
+
+  // DECLINE A CO-AUTHOR INVITATION
+  @Post('me/co-author-invitations/:id/decline')
+  @HttpCode(HttpStatus.OK)
+  decline(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.coAuthorsService.decline(id, user.id);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CoAuthorsService } from './co-authors.service';
+import { CoAuthorsController } from './co-authors.controller';
+
+@Module({
+  controllers: [CoAuthorsController],
+  providers: [CoAuthorsService],
+})
+export class CoAuthorsModule {}
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InvitationStatus, PostAuthorRole, UserRole } from '@prisma/client';
+import { CoAuthorsService } from './co-authors.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('CoAuthorsService', () => {
+  let service: CoAuthorsService;
+
+  const mockPrismaService = {
+    post: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+    postAuthor: { findMany: jest.fn(), upsert: jest.fn(), delete: jest.fn() },
+    postAuthorInvitation: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  // Post 1 is owned by user 1 and co-authored by user 2
+  const post = {
+    id: 1,
+    authorId: 1,
+    authors: [
+      { userId: 1, role: PostAuthorRole.OWNER },
+      { userId: 2, role: PostAuthorRole.CONTRIBUTOR },
+    ],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CoAuthorsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CoAuthorsService>(CoAuthorsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('only lets the owner invite co-authors', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue(post);
+
+    await expect(
+      service.invite(1, { userId: 3 }, 2, UserRole.USER),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.invite(1, { userId: 2 }, 1, UserRole.USER),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('adds the invitee as a contributor when the invitation is accepted', async () => {
+    mockPrismaService.postAuthorInvitation.findUnique.mockResolvedValue({
+      postId: 1,
+      inviteeId: 3,
+      status: InvitationStatus.PENDING,
+      post: { deletedAt: null },
+    });
+
+    await service.accept(5, 3);
+
+    expect(mockPrismaService.postAuthor.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { postId: 1, userId: 3, role: PostAuthorRole.CONTRIBUTOR },
+      }),
+    );
+    expect(mockPrismaService.postAuthorInvitation.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 5 },
+        data: expect.objectContaining({
+          status: InvitationStatus.ACCEPTED,
+        }) as object,
+      }),
+    );
+  });
+
+  it('does not answer an invitation twice', async () => {
+    mockPrismaService.postAuthorInvitation.findUnique.mockResolvedValue({
+      postId: 1,
+      inviteeId: 3,
+      status: InvitationStatus.DECLINED,
+      post: { deletedAt: null },
+    });
+
+    await expect(service.accept(5, 3)).rejects.toThrow(ConflictException);
+  });
+
+  it('lets contributors leave but never removes the owner', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue(post);
+
+    await service.removeAuthor(1, 2, 2, UserRole.USER);
+    expect(mockPrismaService.postAuthor.delete).toHaveBeenCalledWith({
+      where: { postId_userId: { postId: 1, userId: 2 } },
+    });
+
+    await expect(service.removeAuthor(1, 1, 1, UserRole.ADMIN)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
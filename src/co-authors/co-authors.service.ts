@@ -0,0 +1,268 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  InvitationStatus,
+  PostAuthorRole,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { InviteCoAuthorDto } from './dto/invite-co-author.dto';
+
+// Authors of a post as shown with it, the owner first
+export const postAuthorsSelect = {
+  select: {
+    role: true,
+    user: { select: { id: true, name: true } },
+  },
+  orderBy: [{ role: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+} satisfies Prisma.Post$authorsArgs;
+
+const invitationSelect = {
+  id: true,
+  status: true,
+  createdAt: true,
+  respondedAt: true,
+  post: { select: { id: true, title: true, slug: true } },
+  invitee: { select: { id: true, name: true } },
+  inviter: { select: { id: true, name: true } },
+} satisfies Prisma.PostAuthorInvitationSelect;
+
+@Injectable()
+export class CoAuthorsService {
+  constructor(private prisma: PrismaService) {}
+
+  // GET THE AUTHORS AND PENDING INVITATIONS OF A POST (any of its authors or admin)
+  async findForPost(postId: number, currentUserId: number, userRole: UserRole) {
+    const post = await this.findPost(postId);
+
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isAuthor = post.authors.some(
+      (author) => author.userId === currentUserId,
+    );
+    if (!isAdmin && !isAuthor)
+      throw new ForbiddenException(
+        'You do not have permission to view the authors of this post',
+      );
+
+    const [authors, invitations] = await Promise.all([
+      this.prisma.postAuthor.findMany({
+        where: { postId },
+        select: { ...postAuthorsSelect.select, createdAt: true },
+        orderBy: postAuthorsSelect.orderBy,
+      }),
+      this.prisma.postAuthorInvitation.findMany({
+        where: { postId, status: InvitationStatus.PENDING },
+        select: invitationSelect,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+    return { authors, invitations };
+  }
+
+  // INVITE A USER TO CO-AUTHOR A POST (owner or admin)
+  async invite(
+    postId: number,
+    inviteCoAuthorDto: InviteCoAuthorDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const post = await this.getOwnedPost(postId, currentUserId, userRole);
+    const { userId } = inviteCoAuthorDto;
+
+    if (post.authors.some((author) => author.userId === userId))
+      throw new ConflictException('User is already an author of this post');
+
+    const invitee = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!invitee)
+      throw new NotFoundException(`User with ID ${userId} not found`);
+
+    const existing = await this.prisma.postAuthorInvitation.findUnique({
+      where: { postId_inviteeId: { postId, inviteeId: userId } },
+      select: { status: true },
+    });
+    if (existing?.status === InvitationStatus.PENDING)
+      throw new ConflictException('User has already been invited');
+
+    // A declined or no longer relevant invitation is sent again rather than duplicated
+    return this.prisma.postAuthorInvitation.upsert({
+      where: { postId_inviteeId: { postId, inviteeId: userId } },
+      create: { postId, inviteeId: userId, inviterId: currentUserId },
+      update: {
+        inviterId: currentUserId,
+        status: InvitationStatus.PENDING,
+        createdAt: new Date(),
+        respondedAt: null,
+      },
+      select: invitationSelect,
+    });
+  }
+
+  // WITHDRAW A PENDING INVITATION (owner or admin)
+  async revokeInvitation(
+    postId: number,
+    invitationId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getOwnedPost(postId, currentUserId, userRole);
+
+    const { count } = await this.prisma.postAuthorInvitation.deleteMany({
+      where: { id: invitationId, postId, status: InvitationStatus.PENDING },
+    });
+    if (count === 0)
+      throw new NotFoundException(
+        `Pending invitation with ID ${invitationId} not found`,
+      );
+    return { message: 'Invitation revoked' };
+  }
+
+  // REMOVE A CO-AUTHOR (owner or admin, contributors may remove themselves)
+  async removeAuthor(
+    postId: number,
+    userId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const post = await this.findPost(postId);
+    const author = post.authors.find((author) => author.userId === userId);
+    if (!author)
+      throw new NotFoundException(
+        `User with ID ${userId} is not an author of this post`,
+      );
+    if (author.role === PostAuthorRole.OWNER)
+      throw new BadRequestException('The owner of a post cannot be removed');
+
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isOwner = post.authorId === currentUserId;
+    const isSelf = userId === currentUserId;
+    if (!isAdmin && !isOwner && !isSelf)
+      throw new ForbiddenException(
+        'Only the owner of the post can remove co-authors',
+      );
+
+    await this.prisma.postAuthor.delete({
+      where: { postId_userId: { postId, userId } },
+    });
+    return { message: 'Co-author removed' };
+  }
+
+  // GET THE CURRENT USER'S PENDING INVITATIONS (newest first)
+  async findMyInvitations(currentUserId: number) {
+    return this.prisma.postAuthorInvitation.findMany({
+      where: {
+        inviteeId: currentUserId,
+        status: InvitationStatus.PENDING,
+        post: { deletedAt: null },
+      },
+      select: invitationSelect,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  // ACCEPT AN INVITATION, the current user becomes a contributor of the post
+  async accept(invitationId: number, currentUserId: number) {
+    const invitation = await this.getPendingInvitation(
+      invitationId,
+      currentUserId,
+    );
+
+    return await this.prisma.$transaction(async (prisma) => {
+      await prisma.postAuthor.upsert({
+        where: {
+          postId_userId: { postId: invitation.postId, userId: currentUserId },
+        },
+        create: {
+          postId: invitation.postId,
+          userId: currentUserId,
+          role: PostAuthorRole.CONTRIBUTOR,
+        },
+        update: {},
+      });
+
+      return prisma.postAuthorInvitation.update({
+        where: { id: invitationId },
+        data: { status: InvitationStatus.ACCEPTED, respondedAt: new Date() },
+        select: invitationSelect,
+      });
+    });
+  }
+
+  // DECLINE AN INVITATION
+  async decline(invitationId: number, currentUserId: number) {
+    await this.getPendingInvitation(invitationId, currentUserId);
+
+    return this.prisma.postAuthorInvitation.update({
+      where: { id: invitationId },
+      data: { status: InvitationStatus.DECLINED, respondedAt: new Date() },
+      select: invitationSelect,
+    });
+  }
+
+  private async findPost(postId: number) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, deletedAt: null },
+      select: {
+        id: true,
+        authorId: true,
+        authors: { select: { userId: true, role: true } },
+      },
+    });
+    if (!post) throw new NotFoundException(`Post with ID ${postId} not found`);
+    return post;
+  }
+
+  // Only the owner manages who co-authors a post
+  private async getOwnedPost(
+    postId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const post = await this.findPost(postId);
+
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isOwner = post.authorId === currentUserId;
+    if (!isAdmin && !isOwner)
+      throw new ForbiddenException(
+        'Only the owner of the post can manage its co-authors',
+      );
+    return post;
+  }
+
+  // Invitations can only be answered by the invitee, and only once
+  private async getPendingInvitation(
+    invitationId: number,
+    currentUserId: number,
+  ) {
+    const invitation = await this.prisma.postAuthorInvitation.findUnique({
+      where: { id: invitationId },
+      select: {
+        postId: true,
+        inviteeId: true,
+        status: true,
+        post: { select: { deletedAt: true } },
+      },
+    });
+    if (
+      !invitation ||
+      invitation.inviteeId !== currentUserId ||
+      invitation.post.deletedAt
+    )
+      throw new NotFoundException(
+        `Invitation with ID ${invitationId} not found`,
+      );
+    if (invitation.status !== InvitationStatus.PENDING)
+      throw new ConflictException(
+        `Invitation has already been ${invitation.status.toLowerCase()}`,
+      );
+    return invitation;
+  }
+}
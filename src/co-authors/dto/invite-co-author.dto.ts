@@ -0,0 +1,10 @@
+import { IsInt, IsNotEmpty, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class InviteCoAuthorDto {
+  @Type(() => Number)
+  @IsInt()
+  @IsNotEmpty()
+  @IsPositive()
+  userId: number;
+}
@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { CommentsService } from './comments.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { ModerateCommentDto } from './dto/moderate-comment.dto';
+import {
+  FindCommentsQueryDto,
+  ModerationQueueQueryDto,
+} from './dto/find-comments-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller()
+export class CommentsController {
+  constructor(private readonly commentsService: CommentsService) {}
+
+  // GET APPROVED COMMENTS OF A POST (view=tree or view=flat, paginated)
+  @Public()
+  @Get('posts/:postId/comments')
+  @UseInterceptors(PaginationLinksInterceptor)
+  findForPost(
+    @Param('postId', ParseIntPipe) postId: number,
+    @Query() query: FindCommentsQueryDto,
+  ) {
+    return this.commentsService.findForPost(postId, query);
+  }
+
+  // COMMENT ON A POST OR REPLY TO A COMMENT
+  @Post('posts/:postId/comments')
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Param('postId', ParseIntPipe) postId: number,
+    @Body() createCommentDto: CreateCommentDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.commentsService.create(
+      postId,
+      createCommentDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  // GET MODERATION QUEUE (Admin only)
+  @Get('comments/moderation')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(PaginationLinksInterceptor)
+  findModerationQueue(@Query() query: ModerationQueueQueryDto) {
+    return this.commentsService.findModerationQueue(query);
+  }
+
+  // APPROVE OR HIDE A COMMENT (Admin only)
+  @Patch('comments/:id/moderation')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  moderate(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() moderateCommentDto: ModerateCommentDto,
+  ) {
+    return this.commentsService.moderate(id, moderateCommentDto);
+  }
+
+  // UPDATE COMMENT
+  @Patch('comments/:id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.commentsService.update(
+      id,
+      updateCommentDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  // DELETE COMMENT
+  @Delete('comments/:id')
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.commentsService.remove(id, user.id, user.role);
+  }
+}
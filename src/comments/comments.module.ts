@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CommentsService } from './comments.service';
+import { CommentsController } from './comments.controller';
+
+@Module({
+  controllers: [CommentsController],
+  providers: [CommentsService],
+})
+export class CommentsModule {}
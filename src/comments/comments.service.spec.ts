@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { CommentStatus, PostStatus, UserRole } from '@prisma/client';
+import { CommentsService } from './comments.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('CommentsService', () => {
+  let service: CommentsService;
+
+  const mockPrismaService = {
+    comment: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    post: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const comment = (id: number, parentId: number | null = null) => ({
+    id,
+    parentId,
+    content: `Comment ${id}`,
+    status: CommentStatus.APPROVED,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.post.findUnique.mockResolvedValue({
+      id: 1,
+      status: PostStatus.PUBLISHED,
+      commentsClosed: false,
+    });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommentsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CommentsService>(CommentsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('nests the replies of the roots on the current page', async () => {
+    mockPrismaService.comment.count.mockResolvedValue(2);
+    mockPrismaService.comment.findMany
+      .mockResolvedValueOnce([comment(1), comment(2)])
+      .mockResolvedValueOnce([comment(3, 1), comment(4, 2)])
+      .mockResolvedValueOnce([comment(5, 3)])
+      .mockResolvedValueOnce([]);
+
+    const result = await service.findForPost(1, { view: 'tree' });
+
+    expect(result.data).toEqual([
+      {
+        ...comment(1),
+        replies: [
+          { ...comment(3, 1), replies: [{ ...comment(5, 3), replies: [] }] },
+        ],
+      },
+      { ...comment(2), replies: [{ ...comment(4, 2), replies: [] }] },
+    ]);
+    // Only descendants of the page's roots are loaded, level by level
+    expect(mockPrismaService.comment.findMany).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        where: {
+          postId: 1,
+          status: CommentStatus.APPROVED,
+          parentId: { in: [1, 2] },
+        },
+      }),
+    );
+    expect(mockPrismaService.comment.findMany).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({
+        where: expect.objectContaining({ parentId: { in: [3, 4] } }) as object,
+      }),
+    );
+    expect(mockPrismaService.comment.findMany).toHaveBeenCalledTimes(4);
+  });
+
+  it('only lists approved comments', async () => {
+    mockPrismaService.comment.findMany.mockResolvedValue([]);
+    mockPrismaService.comment.count.mockResolvedValue(0);
+
+    await service.findForPost(1, { view: 'flat' });
+
+    expect(mockPrismaService.comment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { postId: 1, status: CommentStatus.APPROVED },
+      }),
+    );
+  });
+
+  it('hides the comments of unpublished posts', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue({
+      id: 1,
+      status: PostStatus.DRAFT,
+      commentsClosed: false,
+    });
+
+    await expect(service.findForPost(1, { view: 'tree' })).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('queues comments for moderation unless an admin writes them', async () => {
+    await service.create(1, { content: 'Nice post' }, 2, UserRole.USER);
+    expect(mockPrismaService.comment.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: CommentStatus.PENDING,
+        }) as object,
+      }),
+    );
+
+    await service.create(1, { content: 'Thanks' }, 3, UserRole.ADMIN);
+    expect(mockPrismaService.comment.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: CommentStatus.APPROVED,
+        }) as object,
+      }),
+    );
+  });
+
+  it('sends edited comments back to moderation', async () => {
+    mockPrismaService.comment.findUnique.mockResolvedValue({
+      id: 5,
+      authorId: 2,
+      status: CommentStatus.APPROVED,
+    });
+
+    await service.update(5, { content: 'Edited' }, 2, UserRole.USER);
+
+    expect(mockPrismaService.comment.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { content: 'Edited', status: CommentStatus.PENDING },
+      }),
+    );
+  });
+
+  it('rejects comments on posts with closed comments', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue({
+      id: 1,
+      status: PostStatus.PUBLISHED,
+      commentsClosed: true,
+    });
+
+    await expect(
+      service.create(1, { content: 'Too late' }, 2, UserRole.USER),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockPrismaService.comment.create).not.toHaveBeenCalled();
+  });
+});
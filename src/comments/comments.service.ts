@@ -0,0 +1,230 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CommentStatus, PostStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { ModerateCommentDto } from './dto/moderate-comment.dto';
+import {
+  FindCommentsQueryDto,
+  ModerationQueueQueryDto,
+} from './dto/find-comments-query.dto';
+import { paginate } from '../common/pagination/pagination';
+
+const commentSelect = {
+  id: true,
+  content: true,
+  status: true,
+  postId: true,
+  parentId: true,
+  createdAt: true,
+  updatedAt: true,
+  author: { select: { id: true, name: true } },
+} satisfies Prisma.CommentSelect;
+
+type CommentRow = Prisma.CommentGetPayload<{ select: typeof commentSelect }>;
+type CommentNode = CommentRow & { replies: CommentNode[] };
+
+@Injectable()
+export class CommentsService {
+  constructor(private prisma: PrismaService) {}
+
+  // GET APPROVED COMMENTS OF A PUBLISHED POST (tree or flat, paginated)
+  async findForPost(postId: number, query: FindCommentsQueryDto) {
+    await this.findPublishedPost(postId);
+    const visible = { postId, status: CommentStatus.APPROVED };
+
+    if (query.view === 'flat') {
+      return paginate(
+        query,
+        (page) =>
+          this.prisma.comment.findMany({
+            ...page,
+            where: visible,
+            select: commentSelect,
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          }),
+        () => this.prisma.comment.count({ where: visible }),
+      );
+    }
+
+    // Tree view paginates the top-level comments and nests all of their replies
+    const roots = { ...visible, parentId: null };
+    const page = await paginate(
+      query,
+      (page) =>
+        this.prisma.comment.findMany({
+          ...page,
+          where: roots,
+          select: commentSelect,
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      () => this.prisma.comment.count({ where: roots }),
+    );
+
+    // Replies are loaded one level at a time, only below the roots on this page
+    const repliesByParent = new Map<number, CommentRow[]>();
+    let parentIds = page.data.map((comment) => comment.id);
+    while (parentIds.length > 0) {
+      const replies = await this.prisma.comment.findMany({
+        where: { ...visible, parentId: { in: parentIds } },
+        select: commentSelect,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      replies.forEach((reply) => {
+        const siblings = repliesByParent.get(reply.parentId!) ?? [];
+        siblings.push(reply);
+        repliesByParent.set(reply.parentId!, siblings);
+      });
+      parentIds = replies.map((reply) => reply.id);
+    }
+    const buildNode = (comment: CommentRow): CommentNode => ({
+      ...comment,
+      replies: (repliesByParent.get(comment.id) ?? []).map(buildNode),
+    });
+
+    return { ...page, data: page.data.map(buildNode) };
+  }
+
+  // CREATE A COMMENT (admins' comments skip the moderation queue)
+  async create(
+    postId: number,
+    createCommentDto: CreateCommentDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const post = await this.findPublishedPost(postId);
+    if (post.commentsClosed)
+      throw new ForbiddenException('Comments are closed for this post');
+
+    const { content, parentId } = createCommentDto;
+    if (parentId) {
+      const parent = await this.prisma.comment.findUnique({
+        where: { id: parentId },
+      });
+      if (!parent || parent.postId !== postId)
+        throw new BadRequestException(
+          'Parent comment does not exist on this post',
+        );
+    }
+
+    return this.prisma.comment.create({
+      data: {
+        content,
+        postId,
+        parentId,
+        authorId: currentUserId,
+        status:
+          userRole === UserRole.ADMIN
+            ? CommentStatus.APPROVED
+            : CommentStatus.PENDING,
+      },
+      select: commentSelect,
+    });
+  }
+
+  // UPDATE A COMMENT (comment author or admin)
+  async update(
+    id: number,
+    updateCommentDto: UpdateCommentDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const comment = await this.getEditableComment(
+      id,
+      currentUserId,
+      userRole,
+      'edit',
+    );
+    const isAdmin = userRole === UserRole.ADMIN;
+
+    return this.prisma.comment.update({
+      where: { id },
+      data: {
+        content: updateCommentDto.content,
+        // Edited comments go back through moderation unless an admin edits them
+        status: isAdmin ? comment.status : CommentStatus.PENDING,
+      },
+      select: commentSelect,
+    });
+  }
+
+  // DELETE A COMMENT AND ITS REPLIES (comment author or admin)
+  async remove(id: number, currentUserId: number, userRole: UserRole) {
+    await this.getEditableComment(id, currentUserId, userRole, 'delete');
+
+    return this.prisma.comment.delete({
+      where: { id },
+      select: commentSelect,
+    });
+  }
+
+  // GET THE MODERATION QUEUE (pending comments by default, oldest first)
+  async findModerationQueue(query: ModerationQueueQueryDto) {
+    const where = { status: query.status, post: { deletedAt: null } };
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.comment.findMany({
+          ...page,
+          where,
+          select: {
+            ...commentSelect,
+            post: { select: { id: true, title: true, slug: true } },
+          },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      () => this.prisma.comment.count({ where }),
+    );
+  }
+
+  // APPROVE OR HIDE A COMMENT
+  async moderate(id: number, moderateCommentDto: ModerateCommentDto) {
+    const comment = await this.prisma.comment.findUnique({ where: { id } });
+    if (!comment)
+      throw new NotFoundException(`Comment with ID ${id} not found`);
+
+    return this.prisma.comment.update({
+      where: { id },
+      data: { status: moderateCommentDto.status },
+      select: commentSelect,
+    });
+  }
+
+  // Comments can only be read and written on published posts
+  private async findPublishedPost(postId: number) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, deletedAt: null },
+      select: { id: true, status: true, commentsClosed: true },
+    });
+    if (!post || post.status !== PostStatus.PUBLISHED)
+      throw new NotFoundException(`Post with ID ${postId} not found`);
+    return post;
+  }
+
+  private async getEditableComment(
+    id: number,
+    currentUserId: number,
+    userRole: UserRole,
+    action: 'edit' | 'delete',
+  ) {
+    const comment = await this.prisma.comment.findUnique({ where: { id } });
+    if (!comment)
+      throw new NotFoundException(`Comment with ID ${id} not found`);
+
+    // Authorization check if its admin or comment author
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isAuthor = comment.authorId === currentUserId;
+
+    if (!isAdmin && !isAuthor)
+      throw new ForbiddenException(
+        `You do not have permission to ${action} this comment`,
+      );
+    return comment;
+  }
+}
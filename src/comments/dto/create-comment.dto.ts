@@ -0,0 +1,24 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  content: string;
+
+  // Set to reply to another comment on the same post
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  parentId?: number;
+}
@@ -0,0 +1,18 @@
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+import { CommentStatus } from '@prisma/client';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+
+export class FindCommentsQueryDto extends PaginationQueryDto {
+  // tree: top-level comments (paginated) with their nested replies, flat: every comment in order
+  @IsOptional()
+  @IsIn(['tree', 'flat'], { message: 'view must be either tree or flat' })
+  view: 'tree' | 'flat' = 'tree';
+}
+
+export class ModerationQueueQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsEnum(CommentStatus, {
+    message: `Status must be one of: ${Object.values(CommentStatus).join(', ')}`,
+  })
+  status: CommentStatus = CommentStatus.PENDING;
+}
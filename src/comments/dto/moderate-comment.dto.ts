@@ -0,0 +1,9 @@
+import { IsIn } from 'class-validator';
+import { CommentStatus } from '@prisma/client';
+
+export class ModerateCommentDto {
+  @IsIn([CommentStatus.APPROVED, CommentStatus.HIDDEN], {
+    message: 'Status must be either APPROVED or HIDDEN',
+  })
+  status: CommentStatus;
+}
@@ -0,0 +1,40 @@
+import { createHash } from 'crypto';
+import type { Request, Response } from 'express';
+
+// Strong ETag of a response body
+export function computeEtag(body: string | Buffer): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// Set ETag and Last-Modified on the response and report whether the client's cached copy is still current,
+// in which case the caller should answer 304 Not Modified without a body
+export function isNotModified(
+  req: Request,
+  res: Response,
+  validators: { etag: string; lastModified?: Date },
+): boolean {
+  const { etag, lastModified } = validators;
+  res.setHeader('ETag', etag);
+  if (lastModified) res.setHeader('Last-Modified', lastModified.toUTCString());
+
+  // If-None-Match wins over If-Modified-Since when both are sent (RFC 9110 13.2.2)
+  const ifNoneMatch = req.get('if-none-match');
+  if (ifNoneMatch) {
+    const stripWeak = (tag: string) => tag.trim().replace(/^W\//, '');
+    return (
+      ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some((tag) => stripWeak(tag) === stripWeak(etag))
+    );
+  }
+
+  const ifModifiedSince = req.get('if-modified-since');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000)
+    );
+  }
+  return false;
+}
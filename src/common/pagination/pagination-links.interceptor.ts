@@ -0,0 +1,54 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Observable, map } from 'rxjs';
+import { isPaginated, PaginationMeta } from './pagination';
+
+@Injectable()
+// Adds an RFC 8288 Link header (first, prev, next) to paginated list responses
+export class PaginationLinksInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    return next.handle().pipe(
+      map((body: unknown) => {
+        if (isPaginated(body)) {
+          const link = this.buildLinkHeader(request, body.meta);
+          if (link) response.setHeader('Link', link);
+        }
+        return body;
+      }),
+    );
+  }
+
+  private buildLinkHeader(request: Request, meta: PaginationMeta) {
+    const url = new URL(
+      request.originalUrl,
+      `${request.protocol}://${request.get('host')}`,
+    );
+    const pageSize =
+      url.searchParams.get('limit') ?? url.searchParams.get('take');
+
+    // Links always use cursor pagination, keeping any other filters of the request
+    const linkTo = (cursor: string | null) => {
+      const target = new URL(url);
+      ['skip', 'take', 'cursor', 'limit'].forEach((param) =>
+        target.searchParams.delete(param),
+      );
+      if (cursor) target.searchParams.set('cursor', cursor);
+      if (pageSize) target.searchParams.set('limit', pageSize);
+      return target.toString();
+    };
+
+    const links = [`<${linkTo(null)}>; rel="first"`];
+    if (meta.prevCursor) links.push(`<${linkTo(meta.prevCursor)}>; rel="prev"`);
+    if (meta.nextCursor) links.push(`<${linkTo(meta.nextCursor)}>; rel="next"`);
+    return links.join(', ');
+  }
+}
@@ -0,0 +1,71 @@
+import { BadRequestException } from '@nestjs/common';
+import { decodeCursor, encodeCursor, paginate, PageArgs } from './pagination';
+
+describe('paginate', () => {
+  const rows = Array.from({ length: 25 }, (_, index) => ({ id: index + 1 }));
+
+  // Mimics Prisma's findMany with cursor, skip and (possibly negative) take
+  const findPage = ({ cursor, skip, take }: PageArgs) => {
+    const start = cursor ? rows.findIndex((row) => row.id === cursor.id) : 0;
+    if (take < 0) {
+      const end = start - skip + 1;
+      return Promise.resolve(rows.slice(Math.max(0, end + take), end));
+    }
+    return Promise.resolve(rows.slice(start + skip, start + skip + take));
+  };
+  const count = () => Promise.resolve(rows.length);
+
+  it('should return the first page with a next cursor', async () => {
+    const page = await paginate({ limit: 10 }, findPage, count);
+
+    expect(page.data.map((row) => row.id)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+    expect(page.meta.total).toBe(25);
+    expect(page.meta.prevCursor).toBeNull();
+    expect(decodeCursor(page.meta.nextCursor!)).toEqual({
+      id: 10,
+      direction: 'next',
+    });
+  });
+
+  it('should walk forward and back with cursors', async () => {
+    const second = await paginate(
+      { cursor: encodeCursor(10, 'next'), limit: 10 },
+      findPage,
+      count,
+    );
+    expect(second.data[0].id).toBe(11);
+
+    const last = await paginate(
+      { cursor: second.meta.nextCursor!, limit: 10 },
+      findPage,
+      count,
+    );
+    expect(last.data.map((row) => row.id)).toEqual([21, 22, 23, 24, 25]);
+    expect(last.meta.nextCursor).toBeNull();
+
+    const back = await paginate(
+      { cursor: last.meta.prevCursor!, limit: 10 },
+      findPage,
+      count,
+    );
+    expect(back.data.map((row) => row.id)).toEqual([
+      11, 12, 13, 14, 15, 16, 17, 18, 19, 20,
+    ]);
+  });
+
+  it('should support offset pagination', async () => {
+    const page = await paginate({ skip: 20, take: 10 }, findPage, count);
+
+    expect(page.data.map((row) => row.id)).toEqual([21, 22, 23, 24, 25]);
+    expect(page.meta.nextCursor).toBeNull();
+    expect(page.meta.prevCursor).not.toBeNull();
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(
+      paginate({ cursor: 'not-a-cursor' }, findPage, count),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
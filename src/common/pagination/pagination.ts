@@ -0,0 +1,127 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PaginationMeta {
+  total: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  meta: PaginationMeta;
+}
+
+// Arguments handed to the query of a paginated list, they map directly onto Prisma's findMany
+export interface PageArgs {
+  skip: number;
+  take: number;
+  cursor?: { id: number };
+}
+
+type CursorDirection = 'next' | 'prev';
+
+export function encodeCursor(id: number, direction: CursorDirection) {
+  return Buffer.from(JSON.stringify({ id, direction })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): {
+  id: number;
+  direction: CursorDirection;
+} {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    const { id, direction } = decoded as {
+      id: unknown;
+      direction: unknown;
+    };
+    if (
+      typeof id === 'number' &&
+      Number.isInteger(id) &&
+      (direction === 'next' || direction === 'prev')
+    ) {
+      return { id, direction };
+    }
+  } catch {
+    // handled below
+  }
+  throw new BadRequestException('Invalid pagination cursor');
+}
+
+// Fetch one page of a list, the query must order by a stable key ending with id
+export async function paginate<T extends { id: number }>(
+  query: PaginationQueryDto,
+  findPage: (args: PageArgs) => Promise<T[]>,
+  count: () => Promise<number>,
+): Promise<Paginated<T>> {
+  const pageSize = Math.min(
+    query.limit ?? query.take ?? DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+  );
+
+  // One extra row is fetched to know if there is another page after this one
+  let items: T[];
+  let hasMoreBefore: boolean;
+  let hasMoreAfter: boolean;
+
+  if (query.cursor) {
+    const { id, direction } = decodeCursor(query.cursor);
+    if (direction === 'next') {
+      const rows = await findPage({
+        cursor: { id },
+        skip: 1,
+        take: pageSize + 1,
+      });
+      items = rows.slice(0, pageSize);
+      hasMoreBefore = true;
+      hasMoreAfter = rows.length > pageSize;
+    } else {
+      // A negative take walks backwards from the cursor
+      const rows = await findPage({
+        cursor: { id },
+        skip: 1,
+        take: -(pageSize + 1),
+      });
+      items = rows.slice(-pageSize);
+      hasMoreBefore = rows.length > pageSize;
+      hasMoreAfter = true;
+    }
+  } else {
+    const offset = query.skip ?? 0;
+    const rows = await findPage({ skip: offset, take: pageSize + 1 });
+    items = rows.slice(0, pageSize);
+    hasMoreBefore = offset > 0;
+    hasMoreAfter = rows.length > pageSize;
+  }
+
+  const total = await count();
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  return {
+    data: items,
+    meta: {
+      total,
+      nextCursor: hasMoreAfter && last ? encodeCursor(last.id, 'next') : null,
+      prevCursor:
+        hasMoreBefore && first ? encodeCursor(first.id, 'prev') : null,
+    },
+  };
+}
+
+export function isPaginated(body: unknown): body is Paginated<unknown> {
+  if (typeof body !== 'object' || body === null) return false;
+  const { data, meta } = body as { data?: unknown; meta?: unknown };
+  return (
+    Array.isArray(data) &&
+    typeof meta === 'object' &&
+    meta !== null &&
+    'nextCursor' in meta &&
+    'prevCursor' in meta
+  );
+}
@@ -0,0 +1,89 @@
+import { diffLines } from './diff.util';
+
+// Length of the longest common subsequence of two line lists, the size of a minimal diff's unchanged part
+function lcsLength(a: string[], b: string[]) {
+  const row = new Array<number>(b.length + 1).fill(0);
+  for (const line of a) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = line === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+describe('diffLines', () => {
+  it('marks added, removed and unchanged lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+      { type: 'unchanged', line: 'a' },
+      { type: 'removed', line: 'b' },
+      { type: 'unchanged', line: 'c' },
+      { type: 'added', line: 'd' },
+    ]);
+  });
+
+  it('lists removals before additions when a line is replaced', () => {
+    expect(diffLines('a\nold\nc', 'a\nnew\nc')).toEqual([
+      { type: 'unchanged', line: 'a' },
+      { type: 'removed', line: 'old' },
+      { type: 'added', line: 'new' },
+      { type: 'unchanged', line: 'c' },
+    ]);
+  });
+
+  it('treats windows line endings like unix ones', () => {
+    expect(diffLines('a\r\nb', 'a\nb')).toEqual([
+      { type: 'unchanged', line: 'a' },
+      { type: 'unchanged', line: 'b' },
+    ]);
+  });
+
+  it('produces a minimal diff that rebuilds both texts', () => {
+    // Small alphabet so the texts share many lines in different places
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const randomLines = () =>
+      Array.from({ length: Math.floor(random() * 30) }, () =>
+        'abcde'.charAt(Math.floor(random() * 5)),
+      );
+
+    for (let run = 0; run < 200; run++) {
+      const oldLines = randomLines();
+      const newLines = randomLines();
+      const diff = diffLines(oldLines.join('\n'), newLines.join('\n'));
+
+      const rebuiltOld = diff.filter((line) => line.type !== 'added');
+      const rebuiltNew = diff.filter((line) => line.type !== 'removed');
+      const unchanged = diff.filter((line) => line.type === 'unchanged');
+      expect(rebuiltOld.map((line) => line.line)).toEqual(
+        oldLines.length ? oldLines : [''],
+      );
+      expect(rebuiltNew.map((line) => line.line)).toEqual(
+        newLines.length ? newLines : [''],
+      );
+      expect(unchanged).toHaveLength(
+        lcsLength(
+          oldLines.length ? oldLines : [''],
+          newLines.length ? newLines : [''],
+        ),
+      );
+    }
+  });
+
+  it('handles long posts with many short lines', () => {
+    const oldLines = Array.from({ length: 10000 }, (_, i) => `${i % 7}`);
+    const newLines = [...oldLines];
+    newLines.splice(5000, 10, 'changed');
+    newLines.push('appended');
+
+    const diff = diffLines(oldLines.join('\n'), newLines.join('\n'));
+
+    expect(diff.filter((line) => line.type === 'removed')).toHaveLength(10);
+    expect(diff.filter((line) => line.type === 'added')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,162 @@
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  line: string;
+}
+
+// Line-level diff of two texts (Myers' algorithm in linear space), removals come before additions
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split(/\r?\n/);
+  const newLines = newText.split(/\r?\n/);
+
+  // Lines are compared as numbers, equal lines share an id
+  const ids = new Map<string, number>();
+  const toId = (line: string) => {
+    let id = ids.get(line);
+    if (id === undefined) ids.set(line, (id = ids.size));
+    return id;
+  };
+  const a = Int32Array.from(oldLines, toId);
+  const b = Int32Array.from(newLines, toId);
+
+  const diff: DiffLine[] = [];
+  const unchanged = (from: number, to: number) => {
+    for (let i = from; i < to; i++)
+      diff.push({ type: 'unchanged', line: oldLines[i] });
+  };
+  const removed = (from: number, to: number) => {
+    for (let i = from; i < to; i++)
+      diff.push({ type: 'removed', line: oldLines[i] });
+  };
+  const added = (from: number, to: number) => {
+    for (let j = from; j < to; j++)
+      diff.push({ type: 'added', line: newLines[j] });
+  };
+
+  const compare = (
+    aStart: number,
+    aEnd: number,
+    bStart: number,
+    bEnd: number,
+  ) => {
+    // Common lines at either end are unchanged, whatever sits between them
+    const prefixStart = aStart;
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+      aStart++;
+      bStart++;
+    }
+    unchanged(prefixStart, aStart);
+    const suffixEnd = aEnd;
+    while (aEnd > aStart && bEnd > bStart && a[aEnd - 1] === b[bEnd - 1]) {
+      aEnd--;
+      bEnd--;
+    }
+
+    if (aStart === aEnd || bStart === bEnd) {
+      removed(aStart, aEnd);
+      added(bStart, bEnd);
+    } else {
+      const split = middleSnake(a, aStart, aEnd, b, bStart, bEnd);
+      if (split) {
+        compare(aStart, split.x, bStart, split.y);
+        compare(split.x, aEnd, split.y, bEnd);
+      } else {
+        removed(aStart, aEnd);
+        added(bStart, bEnd);
+      }
+    }
+    unchanged(aEnd, suffixEnd);
+  };
+
+  compare(0, a.length, 0, b.length);
+  return diff;
+}
+
+// Point where the shortest edit scripts from both ends meet, the two halves are diffed separately
+// Only the furthest reach per diagonal is kept, so memory stays linear in the number of lines
+function middleSnake(
+  a: Int32Array,
+  aStart: number,
+  aEnd: number,
+  b: Int32Array,
+  bStart: number,
+  bEnd: number,
+): { x: number; y: number } | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  const forward = new Int32Array(2 * offset + 1).fill(-1);
+  const backward = new Int32Array(2 * offset + 1).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths meet while extending forward, otherwise while extending backward
+  const oddDelta = delta % 2 !== 0;
+  let forwardKStart = 0;
+  let forwardKEnd = 0;
+  let backwardKStart = 0;
+  let backwardKEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardKStart; k <= d - forwardKEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+          ? forward[index + 1]
+          : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+
+      if (x > n) forwardKEnd += 2;
+      else if (y > m) forwardKStart += 2;
+      else if (oddDelta) {
+        const backwardIndex = offset + delta - k;
+        if (
+          backwardIndex >= 0 &&
+          backwardIndex < backward.length &&
+          backward[backwardIndex] !== -1 &&
+          x >= n - backward[backwardIndex]
+        )
+          return { x: aStart + x, y: bStart + y };
+      }
+    }
+
+    for (let k = -d + backwardKStart; k <= d - backwardKEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+          ? backward[index + 1]
+          : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+
+      if (x > n) backwardKEnd += 2;
+      else if (y > m) backwardKStart += 2;
+      else if (!oddDelta) {
+        const forwardIndex = offset + delta - k;
+        if (
+          forwardIndex >= 0 &&
+          forwardIndex < forward.length &&
+          forward[forwardIndex] !== -1
+        ) {
+          const forwardX = forward[forwardIndex];
+          const forwardY = forwardX - (forwardIndex - offset);
+          if (forwardX >= n - x)
+            return { x: aStart + forwardX, y: bStart + forwardY };
+        }
+      }
+    }
+  }
+  return null;
+}
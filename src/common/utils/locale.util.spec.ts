@@ -0,0 +1,34 @@
+import { pickLocale, requestedLocales } from './locale.util';
+
+describe('requestedLocales', () => {
+  it('orders Accept-Language ranges by quality', () => {
+    expect(requestedLocales(undefined, 'en;q=0.5, fr-CA, fr;q=0.9')).toEqual([
+      'fr-ca',
+      'fr',
+      'en',
+    ]);
+  });
+
+  it('puts ?lang= before Accept-Language', () => {
+    expect(requestedLocales('FR', 'en,fr;q=0.8')).toEqual(['fr', 'en']);
+  });
+
+  it('ignores wildcards, malformed tags and refused locales', () => {
+    expect(requestedLocales(undefined, '*, de;q=0, x_y, en')).toEqual(['en']);
+    expect(requestedLocales()).toEqual([]);
+  });
+});
+
+describe('pickLocale', () => {
+  it('returns the first requested locale that is available', () => {
+    expect(pickLocale(['de', 'fr', 'en'], ['en', 'fr'], 'en')).toBe('fr');
+  });
+
+  it('matches a regional locale to its language', () => {
+    expect(pickLocale(['fr-ca'], ['en', 'fr'], 'en')).toBe('fr');
+  });
+
+  it('falls back when nothing requested is available', () => {
+    expect(pickLocale(['de'], ['en', 'fr'], 'en')).toBe('en');
+  });
+});
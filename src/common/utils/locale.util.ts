@@ -0,0 +1,38 @@
+// Language tags as used in ?lang= and Accept-Language, e.g. "fr" or "fr-CA"
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// Locales a request asks for, best first: ?lang= comes before Accept-Language,
+// e.g. lang=de with "fr-CA,fr;q=0.9,en;q=0.8" -> ["de", "fr-ca", "fr", "en"]
+export function requestedLocales(lang?: string, acceptLanguage?: string) {
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((range, index) => {
+      const [tag, ...params] = range.split(';').map((part) => part.trim());
+      const q = params.find((param) => param.startsWith('q='));
+      return {
+        locale: tag.toLowerCase(),
+        quality: q ? Number(q.slice(2)) || 0 : 1,
+        index,
+      };
+    })
+    // "*" and malformed tags say nothing about a language, they leave the default in place
+    .filter(({ locale, quality }) => quality > 0 && LOCALE_PATTERN.test(locale))
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ locale }) => locale);
+
+  return [...new Set([...(lang ? [lang.toLowerCase()] : []), ...ranges])];
+}
+
+// First requested locale the content is available in, a regional locale also matches its language ("fr-ca" -> "fr")
+export function pickLocale(
+  requested: string[],
+  available: string[],
+  fallback: string,
+) {
+  for (const locale of requested) {
+    if (available.includes(locale)) return locale;
+    const language = locale.split('-')[0];
+    if (available.includes(language)) return language;
+  }
+  return fallback;
+}
@@ -0,0 +1,45 @@
+import { renderMarkdown } from './markdown.util';
+
+describe('renderMarkdown', () => {
+  it('renders markdown to html', () => {
+    const { html } = renderMarkdown('Some **bold** text with `code`');
+
+    expect(html).toBe(
+      '<p>Some <strong>bold</strong> text with <code>code</code></p>\n',
+    );
+  });
+
+  it('escapes raw html and strips unsafe links', () => {
+    const { html } = renderMarkdown(
+      '<script>alert(1)</script>\n\n[click](javascript:alert(1)) <img src=x onerror=alert(1)>',
+    );
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('href="javascript:');
+  });
+
+  it('builds a table of contents with unique heading anchors', () => {
+    const { html, toc } = renderMarkdown(
+      '# Intro\n\ntext\n\n## Setup\n\n## Setup',
+    );
+
+    expect(toc).toEqual([
+      { level: 1, text: 'Intro', id: 'intro' },
+      { level: 2, text: 'Setup', id: 'setup' },
+      { level: 2, text: 'Setup', id: 'setup-2' },
+    ]);
+    expect(html).toContain('<h2 id="setup-2">Setup</h2>');
+  });
+
+  it('derives a plain text excerpt, word count and reading time', () => {
+    const source = `# Title\n\nFirst *paragraph* here.\n\n${'word '.repeat(400)}`;
+    const { excerpt, wordCount, readingTime } = renderMarkdown(source);
+
+    expect(excerpt.startsWith('First paragraph here. word word')).toBe(true);
+    expect(excerpt.endsWith('…')).toBe(true);
+    expect(excerpt.length).toBeLessThanOrEqual(281);
+    expect(wordCount).toBe(404);
+    expect(readingTime).toBe(3);
+  });
+});
@@ -0,0 +1,109 @@
+import MarkdownIt from 'markdown-it';
+import sanitizeHtml from 'sanitize-html';
+import { slugify } from './slug.util';
+
+const WORDS_PER_MINUTE = 200;
+const EXCERPT_LENGTH = 280;
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  excerpt: string;
+  wordCount: number;
+  readingTime: number; // minutes
+  toc: TocEntry[];
+}
+
+// Raw HTML in the source is escaped rather than passed through, the output is sanitized on top of that
+const markdown = new MarkdownIt({ html: false, linkify: true });
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'h1', 'h2'],
+  allowedAttributes: {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title'],
+    code: ['class'],
+    h1: ['id'],
+    h2: ['id'],
+    h3: ['id'],
+    h4: ['id'],
+    h5: ['id'],
+    h6: ['id'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedClasses: { code: [/^language-[\w-]+$/] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'nofollow noopener' }),
+  },
+};
+
+// Render Markdown to sanitized HTML and derive the excerpt, word count, reading time and table of contents
+export function renderMarkdown(source: string): RenderedMarkdown {
+  const tokens = markdown.parse(source, {});
+  const toc: TocEntry[] = [];
+  const usedIds = new Map<string, number>();
+  const paragraphs: string[] = [];
+  const words: string[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type === 'inline') {
+      const text = inlineText(token.children ?? []);
+      words.push(...text.split(/\s+/).filter(Boolean));
+
+      const parent = tokens[index - 1];
+      if (parent?.type === 'paragraph_open') paragraphs.push(text);
+      if (parent?.type === 'heading_open') {
+        // Headings get a unique anchor so the table of contents can link to them
+        const base = slugify(text) || 'section';
+        const seen = usedIds.get(base) ?? 0;
+        usedIds.set(base, seen + 1);
+        const id = seen ? `${base}-${seen + 1}` : base;
+
+        parent.attrSet('id', id);
+        toc.push({ level: Number(parent.tag.slice(1)), text, id });
+      }
+    }
+    if (token.type === 'fence' || token.type === 'code_block')
+      words.push(...token.content.split(/\s+/).filter(Boolean));
+  });
+
+  const html = sanitizeHtml(
+    markdown.renderer.render(tokens, markdown.options, {}),
+    SANITIZE_OPTIONS,
+  );
+
+  return {
+    html,
+    excerpt: truncateAtWord(paragraphs.join(' '), EXCERPT_LENGTH),
+    wordCount: words.length,
+    readingTime: Math.max(1, Math.ceil(words.length / WORDS_PER_MINUTE)),
+    toc,
+  };
+}
+
+// Plain text of an inline token, e.g. "**Hello** [world](/x)" -> "Hello world"
+function inlineText(children: MarkdownIt.Token[]): string {
+  return children
+    .map((child) => {
+      if (child.type === 'text' || child.type === 'code_inline')
+        return child.content;
+      if (child.type === 'softbreak' || child.type === 'hardbreak') return ' ';
+      if (child.type === 'image') return inlineText(child.children ?? []);
+      return '';
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncateAtWord(text: string, maxLength: number) {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+}
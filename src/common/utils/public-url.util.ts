@@ -0,0 +1,13 @@
+export const DEFAULT_PUBLIC_BASE_URL = 'http://localhost:3000';
+
+// Public links to the site's pages, the API itself is served under <baseUrl>/api
+export function publicUrls(baseUrl: string) {
+  const base = baseUrl.replace(/\/+$/, '');
+  return {
+    home: `${base}/`,
+    post: (slug: string) => `${base}/posts/${encodeURIComponent(slug)}`,
+    category: (id: number) => `${base}/categories/${id}`,
+    author: (id: number) => `${base}/authors/${id}`,
+    api: (path: string) => `${base}/api/${path.replace(/^\/+/, '')}`,
+  };
+}
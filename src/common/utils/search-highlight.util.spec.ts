@@ -0,0 +1,74 @@
+import {
+  buildSnippet,
+  extractSearchTerms,
+  highlightTerms,
+} from './search-highlight.util';
+
+describe('extractSearchTerms', () => {
+  it('drops boolean mode operators, single characters and duplicates', () => {
+    expect(extractSearchTerms('+NestJS -express "nest" a (prisma*)')).toEqual([
+      'nestjs',
+      'express',
+      'nest',
+      'prisma',
+    ]);
+  });
+});
+
+describe('highlightTerms', () => {
+  it('marks every occurrence regardless of case', () => {
+    expect(highlightTerms('Nest and nest', ['nest'])).toBe(
+      '<mark>Nest</mark> and <mark>nest</mark>',
+    );
+  });
+
+  it('escapes the text around and inside the matches', () => {
+    expect(highlightTerms('<b>Tom & Jerry</b>', ['jerry'])).toBe(
+      '&lt;b&gt;Tom &amp; <mark>Jerry</mark>&lt;/b&gt;',
+    );
+  });
+
+  it('does not match inside the escaped entities', () => {
+    expect(
+      highlightTerms('Salt & pepper < "quotes"', ['amp', 'lt', 'quot']),
+    ).toBe(
+      'Sa<mark>lt</mark> &amp; pepper &lt; &quot;<mark>quot</mark>es&quot;',
+    );
+  });
+
+  it('prefers the longest term where terms overlap', () => {
+    expect(highlightTerms('nodejs', ['node', 'nodejs'])).toBe(
+      '<mark>nodejs</mark>',
+    );
+  });
+
+  it('treats regex characters in terms literally', () => {
+    expect(highlightTerms('a.b axb', ['a.b'])).toBe('<mark>a.b</mark> axb');
+  });
+});
+
+describe('buildSnippet', () => {
+  const text = `${'lorem '.repeat(40)}the needle is here ${'ipsum '.repeat(40)}`;
+
+  it('cuts the text around the first match', () => {
+    const snippet = buildSnippet(text, ['needle'], 20);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('the <mark>needle</mark> is here');
+    expect(snippet.length).toBeLessThan(80);
+  });
+
+  it('starts at the beginning when nothing matches', () => {
+    const snippet = buildSnippet(text, ['missing'], 20);
+
+    expect(snippet.startsWith('lorem lorem')).toBe(true);
+    expect(snippet).not.toContain('<mark>');
+  });
+
+  it('keeps short texts whole', () => {
+    expect(buildSnippet('Short   & sweet', ['sweet'])).toBe(
+      'Short &amp; <mark>sweet</mark>',
+    );
+  });
+});
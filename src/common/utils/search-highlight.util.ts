@@ -0,0 +1,48 @@
+import { escapeHtml } from './html.util';
+
+// Split a search query into the words to highlight, dropping MySQL boolean mode operators
+export function extractSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .replace(/[+\-<>()~*"@]/g, ' ')
+    .split(/\s+/)
+    .filter((term) => term.length > 1);
+  return [...new Set(terms)];
+}
+
+// Wrap every occurrence of the terms in <mark> tags, the text is matched raw and escaped piece by piece
+export function highlightTerms(text: string, terms: string[]): string {
+  if (terms.length === 0) return escapeHtml(text);
+
+  // Longer terms first so "node" wins over "no" where both match
+  const pattern = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+  // With a capturing group split keeps the matches at the odd indexes
+  return text
+    .split(new RegExp(`(${pattern})`, 'gi'))
+    .map((part, index) =>
+      index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part),
+    )
+    .join('');
+}
+
+// Cut a highlighted snippet of the text around the first matched term
+export function buildSnippet(text: string, terms: string[], radius = 80) {
+  const lowerText = text.toLowerCase();
+  const matchIndexes = terms
+    .map((term) => lowerText.indexOf(term))
+    .filter((index) => index >= 0);
+  const firstMatch = matchIndexes.length > 0 ? Math.min(...matchIndexes) : 0;
+
+  const start = Math.max(0, firstMatch - radius);
+  const end = Math.min(text.length, firstMatch + radius * 2);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+
+  return (
+    (start > 0 ? '…' : '') +
+    highlightTerms(snippet, terms) +
+    (end < text.length ? '…' : '')
+  );
+}
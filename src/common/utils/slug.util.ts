@@ -0,0 +1,13 @@
+// Turn free text into a URL friendly slug, e.g. "Getting Started with NestJS!" -> "getting-started-with-nestjs"
+export function slugify(text: string, maxLength = 180): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents left over after normalizing
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/[\s_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, maxLength)
+    .replace(/-+$/g, '');
+}
@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional } from 'class-validator';
+
+export enum FeedFormat {
+  RSS = 'rss',
+  ATOM = 'atom',
+}
+
+export class FeedQueryDto {
+  @IsOptional()
+  @IsEnum(FeedFormat, { message: 'format must be either rss or atom' })
+  format: FeedFormat = FeedFormat.RSS;
+}
@@ -0,0 +1,32 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { FeedsController } from './feeds.controller';
+import { FeedsService } from './feeds.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('FeedsController', () => {
+  let controller: FeedsController;
+
+  const mockPrismaService = {
+    post: { findMany: jest.fn() },
+    category: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FeedsController],
+      providers: [
+        FeedsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<FeedsController>(FeedsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
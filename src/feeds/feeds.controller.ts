@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  ParseIntPipe,
+  HttpStatus,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { FeedsService, type Feed } from './feeds.service';
+import { FeedFormat, FeedQueryDto } from './dto/feed-query.dto';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { computeEtag, isNotModified } from 'src/common/http/conditional-get';
+
+@Controller()
+export class FeedsController {
+  constructor(private readonly feedsService: FeedsService) {}
+
+  // RSS FEED OF THE LATEST POSTS
+  @Public()
+  @Get('feeds/rss.xml')
+  async rss(@Req() req: Request, @Res({ passthrough: true }) res: Response) {
+    return this.send(
+      req,
+      res,
+      await this.feedsService.siteFeed(FeedFormat.RSS),
+    );
+  }
+
+  // ATOM FEED OF THE LATEST POSTS
+  @Public()
+  @Get('feeds/atom.xml')
+  async atom(@Req() req: Request, @Res({ passthrough: true }) res: Response) {
+    return this.send(
+      req,
+      res,
+      await this.feedsService.siteFeed(FeedFormat.ATOM),
+    );
+  }
+
+  // FEED OF THE LATEST POSTS IN A CATEGORY (rss or atom)
+  @Public()
+  @Get('categories/:id/feed.xml')
+  async category(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: FeedQueryDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      req,
+      res,
+      await this.feedsService.categoryFeed(id, query.format),
+    );
+  }
+
+  // FEED OF THE LATEST POSTS BY AN AUTHOR (rss or atom)
+  @Public()
+  @Get('users/:id/feed.xml')
+  async author(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: FeedQueryDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      req,
+      res,
+      await this.feedsService.authorFeed(id, query.format),
+    );
+  }
+
+  // Feed readers poll, answer 304 without a body when their copy is current
+  private send(req: Request, res: Response, feed: Feed) {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    const etag = computeEtag(feed.xml);
+    if (isNotModified(req, res, { etag, lastModified: feed.lastModified })) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+    res.setHeader('Content-Type', feed.contentType);
+    return feed.xml;
+  }
+}
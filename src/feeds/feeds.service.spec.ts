@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { FeedsService } from './feeds.service';
+import { FeedFormat } from './dto/feed-query.dto';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('FeedsService', () => {
+  let service: FeedsService;
+
+  const mockPrismaService = {
+    post: { findMany: jest.fn() },
+    category: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+  };
+
+  const config: Record<string, string> = {
+    PUBLIC_BASE_URL: 'https://blog.example.com',
+    SITE_TITLE: 'Example',
+  };
+
+  const post = {
+    id: 7,
+    title: 'Tips & <Tricks>',
+    slug: 'tips-tricks',
+    content: 'Hello',
+    contentHtml: '<p>Hello &amp; welcome</p>\n',
+    excerpt: 'Hello & welcome',
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+    updatedAt: new Date('2026-03-02T12:30:00Z'),
+    authors: [
+      { role: 'OWNER', user: { id: 1, name: 'Jane' } },
+      { role: 'CONTRIBUTOR', user: { id: 2, name: 'Sam' } },
+    ],
+    categories: [{ name: 'News' }],
+    tags: [{ name: 'nestjs' }],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeedsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeedsService>(FeedsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('builds an rss feed with escaped content and stable guids', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue([post]);
+
+    const feed = await service.siteFeed(FeedFormat.RSS);
+
+    expect(feed.contentType).toContain('application/rss+xml');
+    expect(feed.lastModified).toEqual(post.updatedAt);
+    expect(feed.xml).toContain('<title>Tips &amp; &lt;Tricks&gt;</title>');
+    expect(feed.xml).toContain(
+      '<guid isPermaLink="false">tag:blog.example.com,2026-03-01:post-7</guid>',
+    );
+    expect(feed.xml).toContain(
+      '<content:encoded>&lt;p&gt;Hello &amp;amp; welcome&lt;/p&gt;\n</content:encoded>',
+    );
+    expect(feed.xml).toContain(
+      `<lastBuildDate>${post.updatedAt.toUTCString()}</lastBuildDate>`,
+    );
+    expect(feed.xml).toContain('<category>nestjs</category>');
+    expect(feed.xml).toContain('<dc:creator>Sam</dc:creator>');
+  });
+
+  it('builds an atom feed for a category', async () => {
+    mockPrismaService.category.findUnique.mockResolvedValue({
+      id: 3,
+      name: 'News',
+      description: null,
+    });
+    mockPrismaService.post.findMany.mockResolvedValue([post]);
+
+    const feed = await service.categoryFeed(3, FeedFormat.ATOM);
+
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          categories: { some: { id: 3 } },
+          status: 'PUBLISHED',
+          deletedAt: null,
+        },
+      }),
+    );
+    expect(feed.contentType).toContain('application/atom+xml');
+    expect(feed.xml).toContain(
+      'href="https://blog.example.com/api/categories/3/feed.xml?format=atom"',
+    );
+    expect(feed.xml).toContain(
+      `<updated>${post.updatedAt.toISOString()}</updated>`,
+    );
+  });
+
+  it('throws when the author does not exist', async () => {
+    mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+    await expect(service.authorFeed(99, FeedFormat.RSS)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { escapeHtml } from '../common/utils/html.util';
+import {
+  DEFAULT_PUBLIC_BASE_URL,
+  publicUrls,
+} from '../common/utils/public-url.util';
+import { renderPostContent } from '../posts/post-content';
+import { FeedFormat } from './dto/feed-query.dto';
+import { postAuthorsSelect } from '../co-authors/co-authors.service';
+
+export const FEED_ITEM_LIMIT = 20;
+
+// Date part of the feeds' own tag URIs, fixed so a feed keeps its id forever
+const FEED_ID_DATE = '2025-01-01';
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  [FeedFormat.RSS]: 'application/rss+xml; charset=utf-8',
+  [FeedFormat.ATOM]: 'application/atom+xml; charset=utf-8',
+};
+
+const feedPostSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  content: true,
+  contentHtml: true,
+  excerpt: true,
+  createdAt: true,
+  updatedAt: true,
+  authors: postAuthorsSelect,
+  categories: { select: { name: true } },
+  tags: { select: { name: true } },
+} satisfies Prisma.PostSelect;
+
+type FeedPost = Prisma.PostGetPayload<{ select: typeof feedPostSelect }>;
+
+interface FeedChannel {
+  title: string;
+  description: string;
+  link: string; // page the feed belongs to
+  selfPath: string; // API path of the feed, e.g. "feeds/rss.xml"
+  tag: string; // unique part of the feed id, e.g. "category-3"
+}
+
+export interface Feed {
+  xml: string;
+  contentType: string;
+  lastModified: Date;
+}
+
+@Injectable()
+export class FeedsService {
+  private readonly siteTitle: string;
+  private readonly urls: ReturnType<typeof publicUrls>;
+  private readonly host: string;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    const baseUrl =
+      this.configService.get<string>('PUBLIC_BASE_URL') ||
+      DEFAULT_PUBLIC_BASE_URL;
+    this.urls = publicUrls(baseUrl);
+    this.host = new URL(baseUrl).host;
+    this.siteTitle = this.configService.get<string>('SITE_TITLE') || 'Blog';
+  }
+
+  // FEED OF THE LATEST PUBLISHED POSTS
+  async siteFeed(format: FeedFormat) {
+    return this.buildFeed(
+      {
+        title: this.siteTitle,
+        description: `Latest posts from ${this.siteTitle}`,
+        link: this.urls.home,
+        selfPath: `feeds/${format}.xml`,
+        tag: 'posts',
+      },
+      {},
+      format,
+    );
+  }
+
+  // FEED OF THE LATEST PUBLISHED POSTS IN A CATEGORY
+  async categoryFeed(id: number, format: FeedFormat) {
+    const category = await this.prisma.category.findUnique({ where: { id } });
+    if (!category)
+      throw new NotFoundException(`Category with ID ${id} not found`);
+
+    return this.buildFeed(
+      {
+        title: `${this.siteTitle}: ${category.name}`,
+        description: category.description || `Latest posts in ${category.name}`,
+        link: this.urls.category(id),
+        selfPath: `categories/${id}/feed.xml${format === FeedFormat.ATOM ? '?format=atom' : ''}`,
+        tag: `category-${id}`,
+      },
+      { categories: { some: { id } } },
+      format,
+    );
+  }
+
+  // FEED OF THE LATEST PUBLISHED POSTS BY AN AUTHOR (including co-authored posts)
+  async authorFeed(id: number, format: FeedFormat) {
+    const author = await this.prisma.user.findUnique({
+      where: { id },
+      select: { id: true, name: true, bio: true },
+    });
+    if (!author) throw new NotFoundException(`User with ID ${id} not found`);
+
+    return this.buildFeed(
+      {
+        title: `${this.siteTitle}: ${author.name}`,
+        description: author.bio || `Latest posts by ${author.name}`,
+        link: this.urls.author(id),
+        selfPath: `users/${id}/feed.xml${format === FeedFormat.ATOM ? '?format=atom' : ''}`,
+        tag: `author-${id}`,
+      },
+      // Co-authored posts appear in the feed of every author credited on them
+      { authors: { some: { userId: id } } },
+      format,
+    );
+  }
+
+  private async buildFeed(
+    channel: FeedChannel,
+    where: Prisma.PostWhereInput,
+    format: FeedFormat,
+  ): Promise<Feed> {
+    const posts = await this.prisma.post.findMany({
+      where: { ...where, status: PostStatus.PUBLISHED, deletedAt: null },
+      select: feedPostSelect,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: FEED_ITEM_LIMIT,
+    });
+
+    // The feed changes whenever one of its posts is edited, an empty feed gets a fixed date so it stays cacheable
+    const lastModified = posts.reduce(
+      (latest, post) => (post.updatedAt > latest ? post.updatedAt : latest),
+      new Date(0),
+    );
+
+    return {
+      xml:
+        format === FeedFormat.ATOM
+          ? this.atom(channel, posts, lastModified)
+          : this.rss(channel, posts, lastModified),
+      contentType: FEED_CONTENT_TYPES[format],
+      lastModified,
+    };
+  }
+
+  private rss(channel: FeedChannel, posts: FeedPost[], lastModified: Date) {
+    const items = posts.map((post) => {
+      const categories = [...post.categories, ...post.tags]
+        .map(({ name }) => `      <category>${escapeHtml(name)}</category>`)
+        .join('\n');
+      return [
+        '    <item>',
+        `      <title>${escapeHtml(post.title)}</title>`,
+        `      <link>${escapeHtml(this.urls.post(post.slug))}</link>`,
+        // Slugs change with the title, the GUID must not
+        `      <guid isPermaLink="false">${this.entryId(post)}</guid>`,
+        `      <pubDate>${post.createdAt.toUTCString()}</pubDate>`,
+        ...post.authors.map(
+          ({ user }) =>
+            `      <dc:creator>${escapeHtml(user.name)}</dc:creator>`,
+        ),
+        ...(categories ? [categories] : []),
+        `      <description>${escapeHtml(post.excerpt ?? '')}</description>`,
+        `      <content:encoded>${escapeHtml(this.contentHtml(post))}</content:encoded>`,
+        '    </item>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      '  <channel>',
+      `    <title>${escapeHtml(channel.title)}</title>`,
+      `    <link>${escapeHtml(channel.link)}</link>`,
+      `    <description>${escapeHtml(channel.description)}</description>`,
+      `    <atom:link href="${escapeHtml(this.urls.api(channel.selfPath))}" rel="self" type="application/rss+xml"/>`,
+      `    <lastBuildDate>${lastModified.toUTCString()}</lastBuildDate>`,
+      ...items,
+      '  </channel>',
+      '</rss>',
+      '',
+    ].join('\n');
+  }
+
+  private atom(channel: FeedChannel, posts: FeedPost[], lastModified: Date) {
+    const entries = posts.map((post) => {
+      const categories = [...post.categories, ...post.tags]
+        .map(({ name }) => `    <category term="${escapeHtml(name)}"/>`)
+        .join('\n');
+      return [
+        '  <entry>',
+        `    <id>${this.entryId(post)}</id>`,
+        `    <title>${escapeHtml(post.title)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${escapeHtml(this.urls.post(post.slug))}"/>`,
+        `    <published>${post.createdAt.toISOString()}</published>`,
+        `    <updated>${post.updatedAt.toISOString()}</updated>`,
+        ...post.authors.map(
+          ({ user }) =>
+            `    <author><name>${escapeHtml(user.name)}</name></author>`,
+        ),
+        ...(categories ? [categories] : []),
+        `    <summary type="text">${escapeHtml(post.excerpt ?? '')}</summary>`,
+        `    <content type="html">${escapeHtml(this.contentHtml(post))}</content>`,
+        '  </entry>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <id>tag:${this.host},${FEED_ID_DATE}:${channel.tag}</id>`,
+      `  <title>${escapeHtml(channel.title)}</title>`,
+      `  <subtitle>${escapeHtml(channel.description)}</subtitle>`,
+      `  <link rel="alternate" type="text/html" href="${escapeHtml(channel.link)}"/>`,
+      `  <link rel="self" type="application/atom+xml" href="${escapeHtml(this.urls.api(channel.selfPath))}"/>`,
+      `  <updated>${lastModified.toISOString()}</updated>`,
+      ...entries,
+      '</feed>',
+      '',
+    ].join('\n');
+  }
+
+  // Stable id of a post across title and slug changes (RFC 4151 tag URI)
+  private entryId(post: FeedPost) {
+    return `tag:${this.host},${post.createdAt.toISOString().slice(0, 10)}:post-${post.id}`;
+  }
+
+  // Posts saved before content rendering existed have no stored HTML yet
+  private contentHtml(post: FeedPost) {
+    return post.contentHtml ?? renderPostContent(post.content).contentHtml;
+  }
+}
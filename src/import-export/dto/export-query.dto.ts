@@ -0,0 +1,12 @@
+import { IsEnum, IsOptional } from 'class-validator';
+
+export enum ExportFormat {
+  MARKDOWN = 'markdown',
+  JSON = 'json',
+}
+
+export class ExportQueryDto {
+  @IsOptional()
+  @IsEnum(ExportFormat, { message: 'format must be either markdown or json' })
+  format: ExportFormat = ExportFormat.MARKDOWN;
+}
@@ -0,0 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  fromPortablePost,
+  PortableArchive,
+  PortableCategory,
+  PortableEntry,
+  PortablePost,
+  toPortablePost,
+} from './portable-archive';
+
+export const JSON_ARCHIVE_VERSION = 1;
+
+// Read a JSON export, posts that cannot be read are reported instead of failing the whole file
+export function parseJsonArchive(text: string): PortableArchive {
+  let archive: { categories?: unknown; posts?: unknown };
+  try {
+    archive = JSON.parse(text) as typeof archive;
+  } catch {
+    throw new BadRequestException('File is not valid JSON');
+  }
+  if (!Array.isArray(archive?.posts))
+    throw new BadRequestException('The JSON export must contain a posts list');
+
+  const categories = Array.isArray(archive.categories)
+    ? archive.categories.map((category: Partial<PortableCategory>) => {
+        if (typeof category?.name !== 'string' || !category.name.trim())
+          throw new BadRequestException('Every category needs a name');
+        return {
+          name: category.name.trim(),
+          description:
+            typeof category.description === 'string'
+              ? category.description
+              : null,
+        };
+      })
+    : [];
+
+  const entries = archive.posts.map((post: unknown, index): PortableEntry => {
+    const source = `posts[${index}]`;
+    if (!post || typeof post !== 'object')
+      return { source, error: 'Post must be an object' };
+    const { content, ...fields } = post as Record<string, unknown>;
+    try {
+      return { source, post: toPortablePost(fields, content) };
+    } catch (error) {
+      return { source, error: (error as Error).message };
+    }
+  });
+
+  return { categories, entries };
+}
+
+export function buildJsonArchive(
+  categories: PortableCategory[],
+  posts: PortablePost[],
+) {
+  return JSON.stringify(
+    {
+      version: JSON_ARCHIVE_VERSION,
+      exportedAt: new Date(),
+      categories,
+      posts: posts.map((post) => ({
+        ...fromPortablePost(post),
+        content: post.content,
+      })),
+    },
+    null,
+    2,
+  );
+}
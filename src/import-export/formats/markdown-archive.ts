@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { strToU8, strFromU8, unzipSync, zipSync } from 'fflate';
+import yaml from 'js-yaml';
+import {
+  fromPortablePost,
+  PortableArchive,
+  PortableCategory,
+  PortableEntry,
+  PortablePost,
+  toPortablePost,
+} from './portable-archive';
+
+// Categories with their descriptions, posts only carry the category names
+const CATEGORIES_FILE = 'categories.yml';
+const POSTS_DIRECTORY = 'posts';
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/;
+
+// Read a ZIP of Markdown files with YAML front matter, the unpacked size is capped so a ZIP bomb is refused early
+export function parseMarkdownArchive(
+  buffer: Buffer,
+  limits: { maxFiles: number; maxUnpackedSize: number },
+): PortableArchive {
+  let fileCount = 0;
+  let unpackedSize = 0;
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        const name = file.name;
+        if (name === CATEGORIES_FILE) return true;
+        if (name.startsWith('__MACOSX/') || !/\.(md|markdown)$/i.test(name))
+          return false;
+
+        fileCount++;
+        unpackedSize += file.originalSize;
+        if (fileCount > limits.maxFiles)
+          throw new BadRequestException(
+            `The archive contains more than ${limits.maxFiles} posts`,
+          );
+        if (unpackedSize > limits.maxUnpackedSize)
+          throw new BadRequestException(
+            'The archive is too large once unpacked',
+          );
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof BadRequestException) throw error;
+    throw new BadRequestException('File is not a valid ZIP archive');
+  }
+
+  const { [CATEGORIES_FILE]: categoriesFile, ...postFiles } = files;
+  const entries = Object.keys(postFiles)
+    .sort()
+    .map((name) => parsePostFile(name, strFromU8(postFiles[name])));
+
+  return {
+    categories: categoriesFile
+      ? parseCategories(strFromU8(categoriesFile))
+      : [],
+    entries,
+  };
+}
+
+// Write posts as posts/<slug>.md and the categories as categories.yml
+export function buildMarkdownArchive(
+  categories: PortableCategory[],
+  posts: PortablePost[],
+) {
+  const files: Record<string, Uint8Array> = {
+    [CATEGORIES_FILE]: strToU8(yaml.dump(categories)),
+  };
+  posts.forEach((post) => {
+    const frontMatter = yaml.dump(fromPortablePost(post));
+    files[`${POSTS_DIRECTORY}/${post.slug}.md`] = strToU8(
+      `---\n${frontMatter}---\n\n${post.content}\n`,
+    );
+  });
+  return Buffer.from(zipSync(files));
+}
+
+function parsePostFile(name: string, text: string): PortableEntry {
+  const match = FRONT_MATTER.exec(text.replace(/^\uFEFF/, ''));
+  if (!match) return { source: name, error: 'Missing YAML front matter' };
+
+  try {
+    const fields = yaml.load(match[1]);
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields))
+      return { source: name, error: 'Front matter must be a YAML mapping' };
+    return {
+      source: name,
+      post: toPortablePost(fields as Record<string, unknown>, match[2]),
+    };
+  } catch (error) {
+    return { source: name, error: (error as Error).message };
+  }
+}
+
+function parseCategories(text: string): PortableCategory[] {
+  let categories: unknown;
+  try {
+    categories = yaml.load(text);
+  } catch {
+    throw new BadRequestException(`${CATEGORIES_FILE} is not valid YAML`);
+  }
+  if (!Array.isArray(categories))
+    throw new BadRequestException(
+      `${CATEGORIES_FILE} must be a list of categories`,
+    );
+
+  return categories.map((category: Partial<PortableCategory>) => {
+    if (typeof category?.name !== 'string' || !category.name.trim())
+      throw new BadRequestException(
+        `Every category in ${CATEGORIES_FILE} needs a name`,
+      );
+    return {
+      name: category.name.trim(),
+      description:
+        typeof category.description === 'string' ? category.description : null,
+    };
+  });
+}
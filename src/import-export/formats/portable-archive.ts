@@ -0,0 +1,122 @@
+import { PostStatus } from '@prisma/client';
+
+// Format independent shape of an import or export, posts refer to users by email and to categories by name
+export interface PortableCategory {
+  name: string;
+  description?: string | null;
+}
+
+export interface PortablePost {
+  title: string;
+  slug?: string;
+  status: PostStatus;
+  author?: string; // owner's email, the importing admin when missing
+  coAuthors: string[]; // emails
+  categories: string[];
+  tags: string[];
+  createdAt?: Date;
+  publishAt?: Date;
+  unpublishAt?: Date;
+  commentsClosed?: boolean;
+  content: string; // Markdown
+}
+
+// One post of the file, or the reason it could not be read
+export interface PortableEntry {
+  source: string; // where the post came from, e.g. a file name in the ZIP
+  post?: PortablePost;
+  error?: string;
+}
+
+export interface PortableArchive {
+  categories: PortableCategory[];
+  entries: PortableEntry[];
+}
+
+// Read a post from loosely typed fields (front matter or JSON), throws with a readable message on bad values
+export function toPortablePost(
+  fields: Record<string, unknown>,
+  content: unknown,
+): PortablePost {
+  const title = optionalString(fields.title, 'title');
+  if (!title) throw new Error('title is missing');
+  if (typeof content !== 'string') throw new Error('content is missing');
+
+  return {
+    title,
+    slug: optionalString(fields.slug, 'slug'),
+    status: toStatus(fields.status),
+    author: optionalString(fields.author, 'author'),
+    coAuthors: stringList(fields.coAuthors, 'coAuthors'),
+    categories: stringList(fields.categories, 'categories'),
+    tags: stringList(fields.tags, 'tags'),
+    createdAt: optionalDate(fields.createdAt, 'createdAt'),
+    publishAt: optionalDate(fields.publishAt, 'publishAt'),
+    unpublishAt: optionalDate(fields.unpublishAt, 'unpublishAt'),
+    commentsClosed:
+      fields.commentsClosed === undefined
+        ? undefined
+        : fields.commentsClosed === true,
+    content: content.trim(),
+  };
+}
+
+// Fields of a post as written to an export, the reverse of toPortablePost
+export function fromPortablePost(post: PortablePost) {
+  return withoutEmpty({
+    title: post.title,
+    slug: post.slug,
+    status: post.status.toLowerCase(),
+    author: post.author,
+    coAuthors: post.coAuthors.length ? post.coAuthors : undefined,
+    categories: post.categories,
+    tags: post.tags.length ? post.tags : undefined,
+    createdAt: post.createdAt,
+    publishAt: post.publishAt,
+    unpublishAt: post.unpublishAt,
+    commentsClosed: post.commentsClosed || undefined,
+  });
+}
+
+// Statuses are written in lower case, e.g. "published"
+function toStatus(value: unknown) {
+  if (value === undefined || value === null) return PostStatus.DRAFT;
+  if (typeof value !== 'string') throw new Error('status must be a string');
+  const status = value.toUpperCase();
+  if (!(status in PostStatus))
+    throw new Error(`status "${value}" is not a valid post status`);
+  return status as PostStatus;
+}
+
+function optionalString(value: unknown, field: string) {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' && typeof value !== 'number')
+    throw new Error(`${field} must be a string`);
+  return String(value).trim() || undefined;
+}
+
+// A single value is accepted for a list, e.g. "categories: News"
+function stringList(value: unknown, field: string) {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((item) => {
+    const text = optionalString(item, field);
+    if (!text) throw new Error(`${field} cannot contain empty values`);
+    return text;
+  });
+}
+
+function optionalDate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date =
+    value instanceof Date ? value : new Date(optionalString(value, field)!);
+  if (Number.isNaN(date.getTime()))
+    throw new Error(`${field} must be a valid date`);
+  return date;
+}
+
+function withoutEmpty<T extends Record<string, unknown>>(fields: T) {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
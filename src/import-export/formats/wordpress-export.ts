@@ -0,0 +1,159 @@
+import { BadRequestException } from '@nestjs/common';
+import { PostStatus } from '@prisma/client';
+import { XMLParser } from 'fast-xml-parser';
+import TurndownService from 'turndown';
+import {
+  PortableArchive,
+  PortableCategory,
+  PortableEntry,
+} from './portable-archive';
+
+// WordPress statuses -> post status, trashed posts and other statuses are not imported
+const WORDPRESS_STATUSES: Record<string, PostStatus> = {
+  publish: PostStatus.PUBLISHED,
+  future: PostStatus.APPROVED, // scheduled, publishAt is set from the post date
+  pending: PostStatus.IN_REVIEW,
+  draft: PostStatus.DRAFT,
+  private: PostStatus.ARCHIVED,
+};
+const BLOCK_TAG =
+  /^<\/?(p|div|h[1-6]|ul|ol|li|pre|blockquote|table|figure|hr|!--)/i;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  isArray: (name) =>
+    ['item', 'category', 'wp:author', 'wp:category'].includes(name),
+});
+
+// WordPress stores HTML, posts here are Markdown
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+});
+
+interface WxrText {
+  '#text'?: string;
+  domain?: string;
+}
+
+interface WxrItem {
+  title?: string | WxrText;
+  'dc:creator'?: string;
+  'content:encoded'?: string;
+  'wp:post_type'?: string;
+  'wp:status'?: string;
+  'wp:post_name'?: string;
+  'wp:post_date_gmt'?: string;
+  'wp:comment_status'?: string;
+  category?: (string | WxrText)[];
+}
+
+interface WxrChannel {
+  item?: WxrItem[];
+  'wp:author'?: { 'wp:author_login'?: string; 'wp:author_email'?: string }[];
+  'wp:category'?: {
+    'wp:cat_name'?: string;
+    'wp:category_description'?: string;
+  }[];
+}
+
+// Read a WordPress export (WXR), authors are mapped from their login to the email in the export
+export function parseWordpressExport(xml: string): PortableArchive {
+  let channel: WxrChannel | undefined;
+  try {
+    const document = xmlParser.parse(xml) as {
+      rss?: { channel?: WxrChannel };
+    };
+    channel = document.rss?.channel;
+  } catch {
+    throw new BadRequestException('File is not valid XML');
+  }
+  if (!channel)
+    throw new BadRequestException('File is not a WordPress export (WXR)');
+
+  const emails = new Map(
+    (channel['wp:author'] ?? []).map((author) => [
+      text(author['wp:author_login']),
+      text(author['wp:author_email']),
+    ]),
+  );
+  const categories: PortableCategory[] = (channel['wp:category'] ?? [])
+    .map((category) => ({
+      name: text(category['wp:cat_name']),
+      description: text(category['wp:category_description']) || null,
+    }))
+    .filter((category) => category.name);
+
+  const entries = (channel.item ?? [])
+    .filter(
+      (item) =>
+        text(item['wp:post_type']) === 'post' &&
+        Object.hasOwn(WORDPRESS_STATUSES, text(item['wp:status'])),
+    )
+    .map((item, index): PortableEntry => {
+      const title = text(item.title);
+      const source = title || `item ${index + 1}`;
+      const status = WORDPRESS_STATUSES[text(item['wp:status'])];
+      const date = wordpressDate(text(item['wp:post_date_gmt']));
+      const terms = (domain: string) =>
+        (item.category ?? [])
+          .filter((term) => typeof term === 'object' && term.domain === domain)
+          .map((term) => text(term))
+          .filter(Boolean);
+
+      if (!title) return { source, error: 'title is missing' };
+      return {
+        source,
+        post: {
+          title,
+          slug: decodeSlug(text(item['wp:post_name'])),
+          status,
+          author: emails.get(text(item['dc:creator'])) || undefined,
+          coAuthors: [],
+          categories: [...new Set(terms('category'))],
+          tags: [...new Set(terms('post_tag'))],
+          createdAt: date,
+          publishAt: status === PostStatus.APPROVED ? date : undefined,
+          commentsClosed: text(item['wp:comment_status']) === 'closed',
+          content: toMarkdown(text(item['content:encoded'])),
+        },
+      };
+    });
+
+  return { categories, entries };
+}
+
+// WordPress separates paragraphs with blank lines instead of <p> tags
+function toMarkdown(html: string) {
+  const paragraphs = html
+    .split(/\r?\n\s*\r?\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => (BLOCK_TAG.test(block) ? block : `<p>${block}</p>`));
+  return turndown.turndown(paragraphs.join('\n')).trim();
+}
+
+// Slugs with non-ASCII characters are stored percent-encoded
+function decodeSlug(value: string) {
+  try {
+    return decodeURIComponent(value) || undefined;
+  } catch {
+    return value || undefined;
+  }
+}
+
+// "2024-01-05 10:00:00" in UTC, drafts have "0000-00-00 00:00:00"
+function wordpressDate(value: string) {
+  if (!value || value.startsWith('0000')) return undefined;
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function text(value: string | WxrText | undefined) {
+  return (typeof value === 'object' ? (value['#text'] ?? '') : (value ?? ''))
+    .toString()
+    .trim();
+}
@@ -0,0 +1,28 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ImportExportController } from './import-export.controller';
+import { ImportExportService } from './import-export.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TagsService } from '../tags/tags.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+
+describe('ImportExportController', () => {
+  let controller: ImportExportController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImportExportController],
+      providers: [
+        ImportExportService,
+        { provide: PrismaService, useValue: {} },
+        { provide: TagsService, useValue: { resolveTags: jest.fn() } },
+        { provide: SitemapService, useValue: { invalidate: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<ImportExportController>(ImportExportController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
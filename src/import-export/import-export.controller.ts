@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { UserRole } from '@prisma/client';
+import {
+  ImportExportService,
+  IMPORT_MAX_FILE_SIZE,
+} from './import-export.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+
+@Controller('admin')
+@UseGuards(RolesGuard)
+@Roles(UserRole.ADMIN)
+export class ImportExportController {
+  constructor(private readonly importExportService: ImportExportService) {}
+
+  // IMPORT POSTS (multipart/form-data "file": ZIP of Markdown files, WordPress WXR or JSON export)
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: IMPORT_MAX_FILE_SIZE } }),
+  )
+  import(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: IMPORT_MAX_FILE_SIZE }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.importExportService.import(file, user.id);
+  }
+
+  // EXPORT ALL POSTS (format=markdown for a ZIP of Markdown files, format=json for a single file)
+  @Get('export')
+  async export(@Query() query: ExportQueryDto) {
+    const file = await this.importExportService.export(query.format);
+    return new StreamableFile(file.data, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ImportExportService } from './import-export.service';
+import { ImportExportController } from './import-export.controller';
+import { TagsModule } from '../tags/tags.module';
+import { SitemapModule } from '../sitemap/sitemap.module';
+
+@Module({
+  imports: [TagsModule, SitemapModule],
+  controllers: [ImportExportController],
+  providers: [ImportExportService],
+})
+export class ImportExportModule {}
@@ -0,0 +1,278 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PostAuthorRole, PostStatus } from '@prisma/client';
+import { ImportExportService } from './import-export.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TagsService } from '../tags/tags.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { ExportFormat } from './dto/export-query.dto';
+
+describe('ImportExportService', () => {
+  let service: ImportExportService;
+
+  const mockPrismaService = {
+    post: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    category: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockTagsService = { resolveTags: jest.fn() };
+  const mockSitemapService = { invalidate: jest.fn() };
+
+  const upload = (content: string | Buffer) =>
+    ({
+      buffer: Buffer.isBuffer(content) ? content : Buffer.from(content),
+    }) as Express.Multer.File;
+
+  const exportedPost = {
+    title: 'Hello world',
+    slug: 'hello-world',
+    content: '# Hello\n\nFirst post of the blog.',
+    status: PostStatus.PUBLISHED,
+    publishAt: null,
+    unpublishAt: null,
+    commentsClosed: false,
+    createdAt: new Date('2026-01-02T10:00:00Z'),
+    authors: [
+      { role: PostAuthorRole.OWNER, user: { email: 'alice@example.com' } },
+      { role: PostAuthorRole.CONTRIBUTOR, user: { email: 'bob@example.com' } },
+    ],
+    categories: [{ name: 'News' }],
+    tags: [{ name: 'intro' }],
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    mockPrismaService.category.upsert.mockResolvedValue({ id: 1 });
+    mockPrismaService.user.findMany.mockResolvedValue([
+      { id: 1, email: 'alice@example.com' },
+      { id: 2, email: 'bob@example.com' },
+    ]);
+    mockPrismaService.post.findFirst.mockResolvedValue(null);
+    mockPrismaService.post.create.mockResolvedValue({
+      id: 10,
+      slug: 'hello-world',
+    });
+    mockTagsService.resolveTags.mockResolvedValue([{ id: 3 }]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportExportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TagsService, useValue: mockTagsService },
+        { provide: SitemapService, useValue: mockSitemapService },
+      ],
+    }).compile();
+
+    service = module.get<ImportExportService>(ImportExportService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it.each([ExportFormat.MARKDOWN, ExportFormat.JSON])(
+    'imports its own %s export back',
+    async (format) => {
+      mockPrismaService.category.findMany.mockResolvedValue([
+        { name: 'News', description: 'Announcements' },
+      ]);
+      mockPrismaService.post.findMany.mockResolvedValue([exportedPost]);
+      const file = await service.export(format);
+
+      const result = await service.import(upload(file.data), 99);
+
+      expect(result).toMatchObject({ format, total: 1, imported: 1 });
+      expect(mockPrismaService.category.upsert).toHaveBeenCalledWith({
+        where: { name: 'News' },
+        create: { name: 'News', description: 'Announcements' },
+        update: {},
+      });
+      expect(mockTagsService.resolveTags).toHaveBeenCalledWith(
+        mockPrismaService,
+        ['intro'],
+      );
+      expect(mockPrismaService.post.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            title: 'Hello world',
+            slug: 'hello-world',
+            content: exportedPost.content,
+            status: PostStatus.PUBLISHED,
+            createdAt: exportedPost.createdAt,
+            authorId: 1,
+            authors: {
+              create: [
+                { userId: 1, role: PostAuthorRole.OWNER },
+                { userId: 2, role: PostAuthorRole.CONTRIBUTOR },
+              ],
+            },
+          }) as object,
+        }),
+      );
+      expect(mockSitemapService.invalidate).toHaveBeenCalled();
+    },
+  );
+
+  it('imports a WordPress export as Markdown', async () => {
+    const wxr = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:wp="http://wordpress.org/export/1.2/">
+  <channel>
+    <wp:author><wp:author_login><![CDATA[alice]]></wp:author_login><wp:author_email><![CDATA[alice@example.com]]></wp:author_email></wp:author>
+    <item>
+      <title><![CDATA[Moving to a new blog]]></title>
+      <dc:creator><![CDATA[alice]]></dc:creator>
+      <content:encoded><![CDATA[We are <strong>moving</strong> soon.
+
+<h2>Why</h2>
+Because it is time.]]></content:encoded>
+      <wp:post_date_gmt><![CDATA[2024-01-05 10:00:00]]></wp:post_date_gmt>
+      <wp:post_name><![CDATA[moving]]></wp:post_name>
+      <wp:status><![CDATA[publish]]></wp:status>
+      <wp:post_type><![CDATA[post]]></wp:post_type>
+      <category domain="category" nicename="news"><![CDATA[News]]></category>
+      <category domain="post_tag" nicename="meta"><![CDATA[meta]]></category>
+    </item>
+    <item>
+      <title><![CDATA[About]]></title>
+      <wp:status><![CDATA[publish]]></wp:status>
+      <wp:post_type><![CDATA[page]]></wp:post_type>
+    </item>
+  </channel>
+</rss>`;
+
+    const result = await service.import(upload(wxr), 99);
+
+    expect(result).toMatchObject({ format: 'wordpress', total: 1 });
+    expect(mockPrismaService.post.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          slug: 'moving',
+          content: 'We are **moving** soon.\n\n## Why\n\nBecause it is time.',
+          createdAt: new Date('2024-01-05T10:00:00Z'),
+          authorId: 1,
+        }) as object,
+      }),
+    );
+  });
+
+  it('reports duplicates and posts that cannot be imported', async () => {
+    mockPrismaService.post.findFirst.mockResolvedValueOnce({ id: 4 });
+    const json = JSON.stringify({
+      posts: [
+        {
+          title: 'Existing',
+          categories: ['News'],
+          content: 'Already on the blog',
+        },
+        {
+          title: 'Unknown author',
+          author: 'eve@example.com',
+          categories: ['News'],
+          content: 'Written by someone else',
+        },
+        { title: 'No content' },
+      ],
+    });
+
+    const result = await service.import(upload(json), 99);
+
+    expect(result.results).toEqual([
+      {
+        source: 'posts[0]',
+        outcome: 'duplicate',
+        postId: 4,
+        slug: 'existing',
+        message: 'A post with slug "existing" already exists',
+      },
+      {
+        source: 'posts[1]',
+        outcome: 'error',
+        message: 'No user with email eve@example.com',
+      },
+      { source: 'posts[2]', outcome: 'error', message: 'content is missing' },
+    ]);
+    expect(mockPrismaService.post.create).not.toHaveBeenCalled();
+    expect(mockSitemapService.invalidate).not.toHaveBeenCalled();
+  });
+
+  it('skips WordPress items whose status is not a post status', async () => {
+    const item = (title: string, status: string) => `
+    <item>
+      <title><![CDATA[${title}]]></title>
+      <content:encoded><![CDATA[Some content for the post.]]></content:encoded>
+      <wp:status><![CDATA[${status}]]></wp:status>
+      <wp:post_type><![CDATA[post]]></wp:post_type>
+      <category domain="category" nicename="news"><![CDATA[News]]></category>
+    </item>`;
+    const wxr = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:wp="http://wordpress.org/export/1.2/">
+  <channel>${item('Constructor', 'constructor')}${item('To string', 'toString')}${item('Draft', 'draft')}
+  </channel>
+</rss>`;
+
+    const result = await service.import(upload(wxr), 99);
+
+    expect(result).toMatchObject({ total: 1, imported: 1 });
+    expect(mockPrismaService.post.create).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.post.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          title: 'Draft',
+          status: PostStatus.DRAFT,
+        }) as object,
+      }),
+    );
+  });
+
+  it('reports posts with a category name that is too long', async () => {
+    const longName = 'c'.repeat(101);
+    const json = JSON.stringify({
+      categories: [{ name: longName }, { name: 'News' }],
+      posts: [
+        {
+          title: 'Long category',
+          categories: [longName],
+          content: 'Filed under a long name',
+        },
+        {
+          title: 'Short category',
+          categories: ['News'],
+          content: 'Filed under a short name',
+        },
+      ],
+    });
+
+    const result = await service.import(upload(json), 99);
+
+    expect(result.results[0]).toEqual({
+      source: 'posts[0]',
+      outcome: 'error',
+      message: `category "${longName}" must be at most 100 characters long`,
+    });
+    expect(result.results[1]).toMatchObject({ outcome: 'imported' });
+    expect(mockPrismaService.category.upsert).not.toHaveBeenCalledWith(
+      expect.objectContaining({ where: { name: longName } }),
+    );
+  });
+
+  it('rejects files in an unknown format', async () => {
+    await expect(service.import(upload('title,content'), 99)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
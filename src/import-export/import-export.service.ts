@@ -0,0 +1,361 @@
+import { Injectable, BadRequestException, HttpException } from '@nestjs/common';
+import { PostAuthorRole, PostStatus, Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { PrismaService } from '../prisma/prisma.service';
+import { TagsService } from '../tags/tags.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { renderPostContent } from '../posts/post-content';
+import { slugify } from '../common/utils/slug.util';
+import { ExportFormat } from './dto/export-query.dto';
+import { PortableArchive, PortablePost } from './formats/portable-archive';
+import {
+  buildMarkdownArchive,
+  parseMarkdownArchive,
+} from './formats/markdown-archive';
+import { buildJsonArchive, parseJsonArchive } from './formats/json-archive';
+import { parseWordpressExport } from './formats/wordpress-export';
+
+export const IMPORT_MAX_FILE_SIZE = 20 * 1024 * 1024; // 20 MB
+export const IMPORT_MAX_POSTS = 500;
+const IMPORT_MAX_UNPACKED_SIZE = 100 * 1024 * 1024; // 100 MB
+
+// Same limits as when a post is created through the API
+const TITLE_MAX_LENGTH = 200;
+const CONTENT_MIN_LENGTH = 10;
+const CONTENT_MAX_LENGTH = 20000;
+const TAGS_MAX = 10;
+const CATEGORY_NAME_MAX_LENGTH = 100;
+
+export enum ImportFormat {
+  MARKDOWN = 'markdown',
+  WORDPRESS = 'wordpress',
+  JSON = 'json',
+}
+
+export interface ImportResult {
+  source: string;
+  outcome: 'imported' | 'duplicate' | 'error';
+  postId?: number;
+  slug?: string;
+  message?: string;
+}
+
+const exportPostSelect = {
+  title: true,
+  slug: true,
+  content: true,
+  status: true,
+  publishAt: true,
+  unpublishAt: true,
+  commentsClosed: true,
+  createdAt: true,
+  authors: {
+    select: { role: true, user: { select: { email: true } } },
+    orderBy: [{ role: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+  },
+  categories: { select: { name: true }, orderBy: { name: 'asc' } },
+  tags: { select: { name: true }, orderBy: { name: 'asc' } },
+} satisfies Prisma.PostSelect;
+
+@Injectable()
+export class ImportExportService {
+  constructor(
+    private prisma: PrismaService,
+    private tagsService: TagsService,
+    private sitemapService: SitemapService,
+  ) {}
+
+  // IMPORT POSTS FROM A ZIP OF MARKDOWN FILES, A WORDPRESS EXPORT OR A JSON EXPORT
+  async import(file: Express.Multer.File, currentUserId: number) {
+    const { format, archive } = this.parse(file.buffer);
+    if (archive.entries.length === 0)
+      throw new BadRequestException('The file does not contain any posts');
+    if (archive.entries.length > IMPORT_MAX_POSTS)
+      throw new BadRequestException(
+        `A single import can contain at most ${IMPORT_MAX_POSTS} posts`,
+      );
+
+    // Listed categories are created up front so their descriptions are kept, also when no post uses them
+    // Names that are too long are left out here, posts using them are reported by the validation
+    for (const category of archive.categories) {
+      if (category.name.length > CATEGORY_NAME_MAX_LENGTH) continue;
+      await this.prisma.category.upsert({
+        where: { name: category.name },
+        create: { name: category.name, description: category.description },
+        update: {},
+      });
+    }
+
+    const authorIds = await this.findAuthors(archive);
+    const seenSlugs = new Set<string>();
+    const results: ImportResult[] = [];
+
+    // Posts are imported one by one, a post that fails does not stop the others
+    for (const { source, post, error } of archive.entries) {
+      if (!post) {
+        results.push({ source, outcome: 'error', message: error });
+        continue;
+      }
+      results.push(
+        await this.importPost(
+          source,
+          post,
+          authorIds,
+          seenSlugs,
+          currentUserId,
+        ),
+      );
+    }
+
+    const count = (outcome: ImportResult['outcome']) =>
+      results.filter((result) => result.outcome === outcome).length;
+    if (count('imported') > 0) this.sitemapService.invalidate();
+
+    return {
+      format,
+      total: results.length,
+      imported: count('imported'),
+      duplicates: count('duplicate'),
+      errors: count('error'),
+      results,
+    };
+  }
+
+  // EXPORT ALL POSTS WITH THEIR CATEGORIES AND AUTHORS (trashed posts are left out)
+  async export(format: ExportFormat) {
+    const [categories, posts] = await Promise.all([
+      this.prisma.category.findMany({
+        select: { name: true, description: true },
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      }),
+      this.prisma.post.findMany({
+        where: { deletedAt: null },
+        select: exportPostSelect,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    const portablePosts = posts.map(
+      (post): PortablePost => ({
+        title: post.title,
+        slug: post.slug,
+        status: post.status,
+        author: post.authors.find(
+          (author) => author.role === PostAuthorRole.OWNER,
+        )?.user.email,
+        coAuthors: post.authors
+          .filter((author) => author.role === PostAuthorRole.CONTRIBUTOR)
+          .map((author) => author.user.email),
+        categories: post.categories.map((category) => category.name),
+        tags: post.tags.map((tag) => tag.name),
+        createdAt: post.createdAt,
+        publishAt: post.publishAt ?? undefined,
+        unpublishAt: post.unpublishAt ?? undefined,
+        commentsClosed: post.commentsClosed,
+        content: post.content,
+      }),
+    );
+
+    const date = new Date().toISOString().slice(0, 10);
+    return format === ExportFormat.JSON
+      ? {
+          data: Buffer.from(buildJsonArchive(categories, portablePosts)),
+          contentType: 'application/json',
+          fileName: `posts-${date}.json`,
+        }
+      : {
+          data: buildMarkdownArchive(categories, portablePosts),
+          contentType: 'application/zip',
+          fileName: `posts-${date}.zip`,
+        };
+  }
+
+  // The format is recognised from the file contents, not its name
+  private parse(buffer: Buffer): {
+    format: ImportFormat;
+    archive: PortableArchive;
+  } {
+    if (buffer.subarray(0, 4).toString('binary') === 'PK\x03\x04')
+      return {
+        format: ImportFormat.MARKDOWN,
+        archive: parseMarkdownArchive(buffer, {
+          maxFiles: IMPORT_MAX_POSTS,
+          maxUnpackedSize: IMPORT_MAX_UNPACKED_SIZE,
+        }),
+      };
+
+    const text = buffer
+      .toString('utf8')
+      .replace(/^\uFEFF/, '')
+      .trimStart();
+    if (text.startsWith('{'))
+      return { format: ImportFormat.JSON, archive: parseJsonArchive(text) };
+    if (text.startsWith('<'))
+      return {
+        format: ImportFormat.WORDPRESS,
+        archive: parseWordpressExport(text),
+      };
+
+    throw new BadRequestException(
+      'Unsupported file, upload a ZIP of Markdown files, a WordPress export or a JSON export',
+    );
+  }
+
+  // Users are matched by email, lower case email -> user id
+  private async findAuthors(archive: PortableArchive) {
+    const emails = new Set(
+      archive.entries.flatMap(({ post }) =>
+        post
+          ? [post.author, ...post.coAuthors]
+              .filter((email): email is string => !!email)
+              .map((email) => email.toLowerCase())
+          : [],
+      ),
+    );
+    const users = await this.prisma.user.findMany({
+      where: { email: { in: [...emails] } },
+      select: { id: true, email: true },
+    });
+    return new Map(users.map((user) => [user.email.toLowerCase(), user.id]));
+  }
+
+  private async importPost(
+    source: string,
+    post: PortablePost,
+    authorIds: Map<string, number>,
+    seenSlugs: Set<string>,
+    currentUserId: number,
+  ): Promise<ImportResult> {
+    const invalid = this.validate(post);
+    if (invalid) return { source, outcome: 'error', message: invalid };
+
+    const unknownEmail = [post.author, ...post.coAuthors].find(
+      (email) => email && !authorIds.has(email.toLowerCase()),
+    );
+    if (unknownEmail)
+      return {
+        source,
+        outcome: 'error',
+        message: `No user with email ${unknownEmail}`,
+      };
+    // Posts without an author are credited to the admin running the import
+    const ownerId = post.author
+      ? authorIds.get(post.author.toLowerCase())!
+      : currentUserId;
+    const coAuthorIds = [
+      ...new Set(
+        post.coAuthors.map((email) => authorIds.get(email.toLowerCase())!),
+      ),
+    ].filter((id) => id !== ownerId);
+
+    // A post whose slug is taken, now or in another post's slug history, was imported before
+    const slug = slugify(post.slug ?? post.title) || slugify(post.title);
+    if (!slug)
+      return {
+        source,
+        outcome: 'error',
+        message: 'title must contain at least one letter or digit',
+      };
+    const existing = await this.prisma.post.findFirst({
+      where: { OR: [{ slug }, { oldSlugs: { some: { slug } } }] },
+      select: { id: true },
+    });
+    if (existing || seenSlugs.has(slug))
+      return {
+        source,
+        outcome: 'duplicate',
+        postId: existing?.id,
+        slug,
+        message: `A post with slug "${slug}" already exists`,
+      };
+
+    try {
+      const created = await this.prisma.$transaction(async (prisma) => {
+        // Categories are matched by name, missing ones are created
+        const categories: { id: number }[] = [];
+        for (const name of new Set(post.categories))
+          categories.push(
+            await prisma.category.upsert({
+              where: { name },
+              create: { name },
+              update: {},
+              select: { id: true },
+            }),
+          );
+        const tagIds = await this.tagsService.resolveTags(prisma, post.tags);
+
+        return prisma.post.create({
+          data: {
+            title: post.title,
+            slug,
+            content: post.content,
+            ...renderPostContent(post.content),
+            status: post.status,
+            createdAt: post.createdAt,
+            // A schedule only applies to the status it moves a post out of
+            publishAt:
+              post.status === PostStatus.APPROVED ? post.publishAt : undefined,
+            unpublishAt:
+              post.status === PostStatus.PUBLISHED
+                ? post.unpublishAt
+                : undefined,
+            commentsClosed: post.commentsClosed,
+            authorId: ownerId,
+            authors: {
+              create: [
+                { userId: ownerId, role: PostAuthorRole.OWNER },
+                ...coAuthorIds.map((userId) => ({
+                  userId,
+                  role: PostAuthorRole.CONTRIBUTOR,
+                })),
+              ],
+            },
+            categories: { connect: categories },
+            tags: { connect: tagIds },
+          },
+          select: { id: true, slug: true },
+        });
+      });
+      seenSlugs.add(slug);
+      return {
+        source,
+        outcome: 'imported',
+        postId: created.id,
+        slug: created.slug,
+      };
+    } catch (error: any) {
+      if (
+        error instanceof PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      )
+        return {
+          source,
+          outcome: 'duplicate',
+          slug,
+          message: `A post with slug "${slug}" already exists`,
+        };
+      if (error instanceof HttpException)
+        return { source, outcome: 'error', message: error.message };
+      throw error;
+    }
+  }
+
+  // Returns why a post cannot be imported, undefined when it can
+  private validate(post: PortablePost) {
+    if (post.title.length > TITLE_MAX_LENGTH)
+      return `title must be at most ${TITLE_MAX_LENGTH} characters long`;
+    if (post.content.length < CONTENT_MIN_LENGTH)
+      return `content must be at least ${CONTENT_MIN_LENGTH} characters long`;
+    if (post.content.length > CONTENT_MAX_LENGTH)
+      return `content must be at most ${CONTENT_MAX_LENGTH} characters long`;
+    if (post.categories.length === 0)
+      return 'At least one category is required';
+    const longCategory = post.categories.find(
+      (name) => name.length > CATEGORY_NAME_MAX_LENGTH,
+    );
+    if (longCategory !== undefined)
+      return `category "${longCategory}" must be at most ${CATEGORY_NAME_MAX_LENGTH} characters long`;
+    if (post.tags.length > TAGS_MAX)
+      return `A post can have at most ${TAGS_MAX} tags`;
+  }
+}
@@ -1,19 +1,28 @@
 import { NestFactory, Reflector } from '@nestjs/core';
 import { Logger, ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { resolve } from 'path';
 import { AppModule } from './app.module';
 import cookieParser from 'cookie-parser';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import {
+  DEFAULT_UPLOAD_DIR,
+  DEFAULT_UPLOAD_URL,
+} from './media/storage/local-storage.driver';
 
 const MAX_RETRY_ATTEMPTS = 5;
 const RETRY_INTERVAL = 5000; // 5 seconds
 
+// Once the app is up, Nest's shutdown hooks handle SIGTERM/SIGINT and exit after closing the app
+let shutdownHooksEnabled = false;
+
 async function bootstrap(retryCount = 0) {
   const logger = new Logger('Bootstrap');
 
   try {
     logger.log('Starting NestJS application...');
 
-    const app = await NestFactory.create(AppModule, {
+    const app = await NestFactory.create<NestExpressApplication>(AppModule, {
       logger: ['error', 'warn', 'log', 'debug', 'verbose'],
     });
 
@@ -36,16 +45,31 @@ async function bootstrap(retryCount = 0) {
     // Set a global API prefix
     app.setGlobalPrefix('api');
 
+    // Serve uploaded media stored by the local storage driver, at the path of the URLs it hands out
+    // MEDIA_PUBLIC_URL may also be absolute, e.g. a CDN in front of this server
+    const mediaPublicUrl = process.env.MEDIA_PUBLIC_URL || DEFAULT_UPLOAD_URL;
+    app.useStaticAssets(
+      resolve(process.env.MEDIA_UPLOAD_DIR || DEFAULT_UPLOAD_DIR),
+      {
+        prefix: new URL(mediaPublicUrl, 'http://localhost').pathname.replace(
+          /\/+$/,
+          '',
+        ),
+      },
+    );
+
     // Enable CORS for all origins
     app.enableCors({
       origin: process.env.CORS_ORIGIN || '*',
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization'],
+      exposedHeaders: ['Link'], // pagination links on list endpoints
     });
 
     // Enable shutdown hooks (important for graceful shutdown)
     app.enableShutdownHooks();
+    shutdownHooksEnabled = true;
 
     const PORT = process.env.PORT ?? 3000;
     await app.listen(PORT);
@@ -96,13 +120,13 @@ process.on('unhandledRejection', (reason, promise) => {
 process.on('SIGTERM', () => {
   const logger = new Logger('SIGTERM');
   logger.log('SIGTERM signal received: closing HTTP server');
-  process.exit(0);
+  if (!shutdownHooksEnabled) process.exit(0);
 });
 
 process.on('SIGINT', () => {
   const logger = new Logger('SIGINT');
   logger.log('SIGINT signal received: closing HTTP server');
-  process.exit(0);
+  if (!shutdownHooksEnabled) process.exit(0);
 });
 
 bootstrap();
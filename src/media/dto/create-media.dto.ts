@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CreateMediaDto {
+  // Required so every image can be described to screen reader users
+  @IsString()
+  @IsNotEmpty({ message: 'Alt text is required' })
+  @MaxLength(500)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  altText: string;
+}
@@ -0,0 +1,43 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MediaController } from './media.controller';
+import { MediaService } from './media.service';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('MediaController', () => {
+  let controller: MediaController;
+
+  const mockPrismaService = {
+    media: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MediaController],
+      providers: [
+        MediaService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: { save: jest.fn(), delete: jest.fn(), url: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    controller = module.get<MediaController>(MediaController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseIntPipe,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  FileTypeValidator,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  MediaService,
+  MEDIA_MAX_FILE_SIZE,
+  MEDIA_MIME_TYPES,
+} from './media.service';
+import { CreateMediaDto } from './dto/create-media.dto';
+import { UpdateMediaDto } from './dto/update-media.dto';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('media')
+export class MediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  // UPLOAD AN IMAGE (multipart/form-data with "file" and "altText")
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MEDIA_MAX_FILE_SIZE } }),
+  )
+  upload(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: MEDIA_MAX_FILE_SIZE }),
+          // Only a first check on the declared type, MediaService verifies the actual file contents
+          new FileTypeValidator({
+            fileType: MEDIA_MIME_TYPES,
+            skipMagicNumbersValidation: true,
+          }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() createMediaDto: CreateMediaDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.mediaService.upload(file, createMediaDto, user.id);
+  }
+
+  // GET MY UPLOADS
+  @Get()
+  @UseInterceptors(PaginationLinksInterceptor)
+  findAll(
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.mediaService.findAll(user.id, query);
+  }
+
+  // GET A SINGLE MEDIA ITEM
+  @Public()
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.mediaService.findOne(id);
+  }
+
+  // UPDATE ALT TEXT
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateMediaDto: UpdateMediaDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.mediaService.update(id, updateMediaDto, user.id, user.role);
+  }
+
+  // DELETE A MEDIA ITEM
+  @Delete(':id')
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.mediaService.remove(id, user.id, user.role);
+  }
+}
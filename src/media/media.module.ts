@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MediaService } from './media.service';
+import { MediaController } from './media.controller';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import { LocalStorageDriver } from './storage/local-storage.driver';
+
+@Module({
+  controllers: [MediaController],
+  providers: [
+    MediaService,
+    // Bind another StorageDriver implementation here to move uploads off the local disk
+    { provide: STORAGE_DRIVER, useClass: LocalStorageDriver },
+  ],
+})
+export class MediaModule {}
@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import sharp from 'sharp';
+import { MediaService } from './media.service';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('MediaService', () => {
+  let service: MediaService;
+
+  const mockPrismaService = {
+    media: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockStorageDriver = {
+    save: jest.fn(),
+    delete: jest.fn(),
+    url: jest.fn((key: string) => `/uploads/${key}`),
+  };
+
+  const imageFile = async (width: number, height: number) => {
+    const buffer = await sharp({
+      create: { width, height, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+    return {
+      buffer,
+      size: buffer.length,
+      originalname: 'photo.png',
+      mimetype: 'image/png',
+    } as Express.Multer.File;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: mockStorageDriver,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MediaService>(MediaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('stores the original and resized variants of an upload', async () => {
+    mockPrismaService.media.create.mockImplementation(
+      ({ data }: { data: unknown }) => data,
+    );
+
+    const media = await service.upload(
+      await imageFile(2000, 1000),
+      { altText: 'A blue rectangle' },
+      7,
+    );
+
+    expect(mockStorageDriver.save).toHaveBeenCalledTimes(3);
+    expect(media).toMatchObject({
+      mimeType: 'image/png',
+      width: 2000,
+      height: 1000,
+      altText: 'A blue rectangle',
+      ownerId: 7,
+      variants: {
+        thumbnail: { width: 320, height: 320 },
+        medium: { width: 1024, height: 512 },
+      },
+    });
+  });
+
+  it('never enlarges small images', async () => {
+    mockPrismaService.media.create.mockImplementation(
+      ({ data }: { data: unknown }) => data,
+    );
+
+    const media = await service.upload(
+      await imageFile(100, 50),
+      { altText: 'Tiny' },
+      7,
+    );
+
+    expect(media.variants).toMatchObject({
+      medium: { width: 100, height: 50 },
+    });
+  });
+
+  it('rejects files that are not images whatever their declared type', async () => {
+    const file = {
+      buffer: Buffer.from('not an image'),
+      size: 12,
+      originalname: 'fake.png',
+      mimetype: 'image/png',
+    } as Express.Multer.File;
+
+    await expect(
+      service.upload(file, { altText: 'Fake' }, 7),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(mockStorageDriver.save).not.toHaveBeenCalled();
+  });
+
+  it('removes stored files when the upload cannot be saved', async () => {
+    mockPrismaService.media.create.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      service.upload(await imageFile(400, 400), { altText: 'Square' }, 7),
+    ).rejects.toThrow('db down');
+    expect(mockStorageDriver.delete).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateMediaDto } from './dto/create-media.dto';
+import { UpdateMediaDto } from './dto/update-media.dto';
+import { STORAGE_DRIVER, type StorageDriver } from './storage/storage-driver';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/pagination';
+
+export const MEDIA_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+export const MEDIA_MIME_TYPES = /^image\/(jpeg|png|webp|gif)$/;
+
+// Image formats as detected by sharp from the file contents -> stored MIME type and extension
+const IMAGE_FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  gif: { mimeType: 'image/gif', extension: 'gif' },
+};
+
+// Resized copies generated for every upload, never larger than the original
+const VARIANTS: Record<string, sharp.ResizeOptions> = {
+  thumbnail: { width: 320, height: 320, fit: 'cover' },
+  medium: { width: 1024, height: 1024, fit: 'inside' },
+};
+
+export interface MediaVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export const mediaSelect = {
+  id: true,
+  url: true,
+  altText: true,
+  width: true,
+  height: true,
+  variants: true,
+} satisfies Prisma.MediaSelect;
+
+@Injectable()
+export class MediaService {
+  private readonly logger = new Logger(MediaService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(STORAGE_DRIVER) private storage: StorageDriver,
+  ) {}
+
+  // UPLOAD AN IMAGE (stores the original and its resized variants)
+  async upload(
+    file: Express.Multer.File,
+    createMediaDto: CreateMediaDto,
+    currentUserId: number,
+  ) {
+    // The client supplied MIME type is not trusted, the format is read from the file itself
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(file.buffer).metadata();
+    } catch {
+      throw new BadRequestException('File is not a valid image');
+    }
+    const format = IMAGE_FORMATS[metadata.format ?? ''];
+    if (!format || !metadata.width || !metadata.height)
+      throw new BadRequestException(
+        'Unsupported image type, allowed types are JPEG, PNG, WebP and GIF',
+      );
+
+    const now = new Date();
+    const baseKey = `${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, '0')}/${randomUUID()}`;
+    const storageKey = `${baseKey}.${format.extension}`;
+
+    const files: { key: string; data: Buffer; mimeType: string }[] = [
+      { key: storageKey, data: file.buffer, mimeType: format.mimeType },
+    ];
+    const variants: Record<string, MediaVariant> = {};
+    for (const [name, resize] of Object.entries(VARIANTS)) {
+      const { data, info } = await sharp(file.buffer)
+        .rotate() // apply EXIF orientation before resizing
+        .resize({ ...resize, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+      const key = `${baseKey}-${name}.webp`;
+      files.push({ key, data, mimeType: 'image/webp' });
+      variants[name] = {
+        key,
+        url: this.storage.url(key),
+        width: info.width,
+        height: info.height,
+      };
+    }
+
+    await Promise.all(
+      files.map(({ key, data, mimeType }) =>
+        this.storage.save(key, data, mimeType),
+      ),
+    );
+
+    try {
+      return await this.prisma.media.create({
+        data: {
+          storageKey,
+          url: this.storage.url(storageKey),
+          originalName: file.originalname,
+          mimeType: format.mimeType,
+          size: file.size,
+          width: metadata.width,
+          height: metadata.height,
+          altText: createMediaDto.altText,
+          variants: variants as unknown as Prisma.InputJsonObject,
+          ownerId: currentUserId,
+        },
+      });
+    } catch (error) {
+      // Don't leave orphaned files behind when the row could not be saved
+      await this.deleteFiles(files.map((file) => file.key));
+      throw error;
+    }
+  }
+
+  // GET THE CURRENT USER'S UPLOADS (newest first)
+  async findAll(currentUserId: number, query: PaginationQueryDto) {
+    const where = { ownerId: currentUserId };
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.media.findMany({
+          ...page,
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      () => this.prisma.media.count({ where }),
+    );
+  }
+
+  // GET A SINGLE MEDIA ITEM
+  async findOne(id: number) {
+    const media = await this.prisma.media.findUnique({ where: { id } });
+    if (!media) throw new NotFoundException(`Media with ID ${id} not found`);
+    return media;
+  }
+
+  // UPDATE THE ALT TEXT OF A MEDIA ITEM (owner or admin)
+  async update(
+    id: number,
+    updateMediaDto: UpdateMediaDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getOwnedMedia(id, currentUserId, userRole, 'edit');
+
+    return this.prisma.media.update({
+      where: { id },
+      data: { altText: updateMediaDto.altText },
+    });
+  }
+
+  // DELETE A MEDIA ITEM AND ITS FILES (owner or admin), posts using it as cover lose their cover image
+  async remove(id: number, currentUserId: number, userRole: UserRole) {
+    const media = await this.getOwnedMedia(
+      id,
+      currentUserId,
+      userRole,
+      'delete',
+    );
+
+    const deleted = await this.prisma.media.delete({ where: { id } });
+    const variants = media.variants as unknown as Record<string, MediaVariant>;
+    await this.deleteFiles([
+      media.storageKey,
+      ...Object.values(variants).map((variant) => variant.key),
+    ]);
+    return deleted;
+  }
+
+  private async getOwnedMedia(
+    id: number,
+    currentUserId: number,
+    userRole: UserRole,
+    action: 'edit' | 'delete',
+  ) {
+    const media = await this.findOne(id);
+
+    // Authorization check if its admin or the uploader
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isOwner = media.ownerId === currentUserId;
+
+    if (!isAdmin && !isOwner)
+      throw new ForbiddenException(
+        `You do not have permission to ${action} this media`,
+      );
+    return media;
+  }
+
+  // Failing to remove a file is logged rather than failing the request, the row is already gone
+  private async deleteFiles(keys: string[]) {
+    const results = await Promise.allSettled(
+      keys.map((key) => this.storage.delete(key)),
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected')
+        this.logger.error(
+          `Failed to delete media file ${keys[index]}`,
+          result.reason,
+        );
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { StorageDriver } from './storage-driver';
+
+export const DEFAULT_UPLOAD_DIR = 'uploads';
+export const DEFAULT_UPLOAD_URL = '/uploads';
+
+@Injectable()
+// Keeps files on the local disk, main.ts serves the upload directory as static files
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+  private readonly baseUrl: string;
+
+  constructor(private configService: ConfigService) {
+    this.root = resolve(
+      this.configService.get<string>('MEDIA_UPLOAD_DIR') || DEFAULT_UPLOAD_DIR,
+    );
+    this.baseUrl = (
+      this.configService.get<string>('MEDIA_PUBLIC_URL') || DEFAULT_UPLOAD_URL
+    ).replace(/\/+$/, '');
+  }
+
+  async save(key: string, data: Buffer) {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async delete(key: string) {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  url(key: string) {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  // Keys are generated by MediaService, this guards against a key ever escaping the upload directory
+  private pathFor(key: string) {
+    const path = join(this.root, key);
+    if (!path.startsWith(this.root + '/'))
+      throw new Error(`Invalid storage key: ${key}`);
+    return path;
+  }
+}
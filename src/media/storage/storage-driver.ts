@@ -0,0 +1,12 @@
+// Injection token for the storage driver used by MediaService
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+// Where uploaded files are kept, swap the implementation bound to STORAGE_DRIVER to store them elsewhere (e.g. S3)
+export interface StorageDriver {
+  // Store a file under a key such as "2026/10/<uuid>.jpg"
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  // Remove a file, deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+  // Public URL the file is served from
+  url(key: string): string;
+}
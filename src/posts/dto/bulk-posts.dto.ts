@@ -0,0 +1,108 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PostStatus } from '@prisma/client';
+
+// Most posts a single bulk request may touch, by ids or by filter
+export const BULK_POSTS_MAX = 100;
+
+export enum BulkPostAction {
+  PUBLISH = 'publish',
+  UNPUBLISH = 'unpublish',
+  DELETE = 'delete',
+  ADD_CATEGORIES = 'add_categories',
+  REMOVE_CATEGORIES = 'remove_categories',
+  REPLACE_CATEGORIES = 'replace_categories',
+  REASSIGN_AUTHOR = 'reassign_author',
+}
+
+export const BULK_CATEGORY_ACTIONS = [
+  BulkPostAction.ADD_CATEGORIES,
+  BulkPostAction.REMOVE_CATEGORIES,
+  BulkPostAction.REPLACE_CATEGORIES,
+];
+
+export class BulkPostsFilterDto {
+  @IsOptional()
+  @IsEnum(PostStatus)
+  status?: PostStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  categoryId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  authorId?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+}
+
+export class BulkPostsDto {
+  @IsEnum(BulkPostAction)
+  action: BulkPostAction;
+
+  // Either postIds or filter selects the posts to act on
+  @IsOptional()
+  @ArrayUnique()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(BULK_POSTS_MAX)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  postIds?: number[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkPostsFilterDto)
+  filter?: BulkPostsFilterDto;
+
+  // Categories to add, remove or replace with
+  @ValidateIf((dto: BulkPostsDto) => BULK_CATEGORY_ACTIONS.includes(dto.action))
+  @ArrayUnique()
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one category is required' })
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  categoryIds?: number[];
+
+  // New owner of the posts
+  @ValidateIf(
+    (dto: BulkPostsDto) => dto.action === BulkPostAction.REASSIGN_AUTHOR,
+  )
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  authorId?: number;
+
+  // Report what would change without changing anything
+  @IsOptional()
+  @IsBoolean()
+  dryRun: boolean = false;
+}
@@ -1,7 +1,6 @@
 import {
   IsNotEmpty,
   IsString,
-  IsBoolean,
   IsOptional,
   IsInt,
   IsArray,
@@ -10,6 +9,10 @@ import {
   IsPositive,
   ArrayUnique,
   ArrayMinSize,
+  IsDate,
+  MinDate,
+  IsBoolean,
+  ArrayMaxSize,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
@@ -27,9 +30,23 @@ export class CreatePostDto {
   @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   content: string;
 
-  @IsBoolean()
+  // Optional schedule, the post goes live at publishAt and back to draft at unpublishAt
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'publishAt cannot be in the past' })
+  publishAt?: Date | null;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'unpublishAt cannot be in the past' })
+  unpublishAt?: Date | null;
+
+  // Readers can no longer comment once comments are closed
   @IsOptional()
-  published?: boolean;
+  @IsBoolean()
+  commentsClosed?: boolean;
 
   @Type(() => Number)
   @IsInt()
@@ -45,4 +62,30 @@ export class CreatePostDto {
   @Type(() => Number)
   @IsPositive({ each: true })
   categoryIds: number[];
+
+  // Free-form tag names, tags that do not exist yet are created
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10, { message: 'A post can have at most 10 tags' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  // Uploaded media (see POST /media) shown as the post's cover image
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  coverImageId?: number | null;
+
+  // Uploaded media attached to the post, e.g. images used inline in the content
+  @IsOptional()
+  @ArrayUnique()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  attachmentIds?: number[];
 }
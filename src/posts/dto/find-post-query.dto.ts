@@ -0,0 +1,17 @@
+import { IsEnum, IsOptional, Matches } from 'class-validator';
+import { PostContentFormat } from '../post-content';
+import { LOCALE_PATTERN } from '../../common/utils/locale.util';
+
+export class FindPostQueryDto {
+  // html returns the rendered, sanitized body, markdown the source as written
+  @IsOptional()
+  @IsEnum(PostContentFormat, {
+    message: 'format must be either html or markdown',
+  })
+  format: PostContentFormat = PostContentFormat.HTML;
+
+  // Preferred locale, takes precedence over the Accept-Language header
+  @IsOptional()
+  @Matches(LOCALE_PATTERN, { message: 'lang must be a language tag, e.g. fr' })
+  lang?: string;
+}
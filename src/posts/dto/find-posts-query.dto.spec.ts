@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { FindPostsQueryDto } from './find-posts-query.dto';
+
+describe('FindPostsQueryDto', () => {
+  const parse = async (query: Record<string, unknown>) => {
+    const dto = plainToInstance(FindPostsQueryDto, query);
+    const errors = await validate(dto);
+    return { dto, errors: errors.map((error) => error.property) };
+  };
+
+  it('splits comma separated sort keys', async () => {
+    const { dto, errors } = await parse({ sort: '-viewCount, title' });
+
+    expect(errors).toEqual([]);
+    expect(dto.sort).toEqual(['-viewCount', 'title']);
+  });
+
+  it('accepts repeated sort params', async () => {
+    const { dto, errors } = await parse({
+      sort: ['-createdAt', 'title,-updatedAt'],
+    });
+
+    expect(errors).toEqual([]);
+    expect(dto.sort).toEqual(['-createdAt', 'title', '-updatedAt']);
+  });
+
+  it('rejects unknown or repeated sort fields', async () => {
+    await expect(parse({ sort: 'password' })).resolves.toMatchObject({
+      errors: ['sort'],
+    });
+    await expect(parse({ sort: 'title,title' })).resolves.toMatchObject({
+      errors: ['sort'],
+    });
+  });
+
+  it('converts the filters to their types', async () => {
+    const { dto, errors } = await parse({
+      published: 'true',
+      categoryId: '3',
+      authorId: '2',
+      createdFrom: '2025-01-01',
+      minViews: '10',
+    });
+
+    expect(errors).toEqual([]);
+    expect(dto).toMatchObject({
+      published: 'true',
+      categoryId: 3,
+      authorId: 2,
+      createdFrom: new Date('2025-01-01'),
+      minViews: 10,
+    });
+  });
+
+  it('rejects invalid filter values', async () => {
+    const { errors } = await parse({
+      published: 'yes',
+      categoryId: '0',
+      createdTo: 'yesterday',
+      minViews: '-1',
+    });
+
+    expect(errors.sort()).toEqual([
+      'categoryId',
+      'createdTo',
+      'minViews',
+      'published',
+    ]);
+  });
+});
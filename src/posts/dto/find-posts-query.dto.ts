@@ -0,0 +1,85 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  Matches,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+import { LOCALE_PATTERN } from '../../common/utils/locale.util';
+
+// Fields posts can be sorted by, prefix with "-" for descending order
+export const POST_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'viewCount',
+  'title',
+] as const;
+export type PostSortField = (typeof POST_SORT_FIELDS)[number];
+const POST_SORT_VALUES = POST_SORT_FIELDS.flatMap((field) => [
+  field,
+  `-${field}`,
+]);
+
+export class FindPostsQueryDto extends PaginationQueryDto {
+  // Published posts are listed by default, published=false lists every other status (admins only, others get their own posts)
+  @IsOptional()
+  @IsIn(['true', 'false'], { message: 'published must be true or false' })
+  published?: 'true' | 'false';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  categoryId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  authorId?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdTo?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minViews?: number;
+
+  // Comma separated or repeated, e.g. ?sort=-viewCount,title or ?sort=-viewCount&sort=title
+  @IsOptional()
+  @Transform(({ obj }: { obj: Record<string, unknown> }) => {
+    const raw = obj.sort;
+    const values = Array.isArray(raw) ? raw : [raw];
+    return values
+      .flatMap((value) => (typeof value === 'string' ? value.split(',') : []))
+      .map((value) => value.trim())
+      .filter(Boolean);
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(POST_SORT_VALUES, {
+    each: true,
+    message: `sort must be one of: ${POST_SORT_VALUES.join(', ')}`,
+  })
+  sort?: string[];
+
+  // Preferred locale, takes precedence over the Accept-Language header
+  @IsOptional()
+  @Matches(LOCALE_PATTERN, { message: 'lang must be a language tag, e.g. fr' })
+  lang?: string;
+}
@@ -0,0 +1,21 @@
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum TrendingWindow {
+  DAY = '24h',
+  WEEK = '7d',
+  MONTH = '30d',
+}
+
+export class FindTrendingPostsQueryDto {
+  @IsOptional()
+  @IsEnum(TrendingWindow, { message: 'window must be one of: 24h, 7d, 30d' })
+  window: TrendingWindow = TrendingWindow.DAY;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit: number = 10;
+}
@@ -0,0 +1,35 @@
+import { IsDate, IsEnum, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum AnalyticsGranularity {
+  DAY = 'day',
+  WEEK = 'week',
+}
+
+export enum AnalyticsFormat {
+  JSON = 'json',
+  CSV = 'csv',
+}
+
+export class PostAnalyticsQueryDto {
+  // First and last day of the range (UTC), defaults to the last 30 days
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @IsEnum(AnalyticsGranularity, {
+    message: 'granularity must be either day or week',
+  })
+  granularity: AnalyticsGranularity = AnalyticsGranularity.DAY;
+
+  @IsOptional()
+  @IsEnum(AnalyticsFormat, { message: 'format must be either json or csv' })
+  format: AnalyticsFormat = AnalyticsFormat.JSON;
+}
@@ -0,0 +1,68 @@
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export enum SearchMode {
+  NATURAL = 'natural',
+  BOOLEAN = 'boolean',
+}
+
+export class SearchPostsQueryDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Search query "q" is required' })
+  @MinLength(2, { message: 'Search query must be at least 2 characters long' })
+  @MaxLength(200)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  q: string;
+
+  // natural: plain language ranking, boolean: MySQL operators such as +must -not "exact phrase" prefix*
+  @IsOptional()
+  @IsEnum(SearchMode, { message: 'Mode must be either natural or boolean' })
+  mode: SearchMode = SearchMode.NATURAL;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  skip: number = 0;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take: number = 10;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  categoryId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  authorId?: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+}
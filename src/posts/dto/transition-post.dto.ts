@@ -0,0 +1,17 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PostStatus } from '@prisma/client';
+
+export class TransitionPostDto {
+  @IsEnum(PostStatus, {
+    message: `Status must be one of: ${Object.values(PostStatus).join(', ')}`,
+  })
+  status: PostStatus;
+
+  // Required when an admin rejects a post that is in review
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  reason?: string;
+}
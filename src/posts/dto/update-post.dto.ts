@@ -2,7 +2,6 @@ import { PartialType } from '@nestjs/mapped-types';
 import { CreatePostDto } from './create-post.dto';
 import {
   IsString,
-  IsBoolean,
   IsOptional,
   IsInt,
   IsArray,
@@ -11,6 +10,11 @@ import {
   IsPositive,
   ArrayUnique,
   ArrayMinSize,
+  IsDate,
+  MinDate,
+  IsBoolean,
+  ArrayMaxSize,
+  IsNotEmpty,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
@@ -28,9 +32,22 @@ export class UpdatePostDto extends PartialType(CreatePostDto) {
   @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
   content?: string;
 
-  @IsBoolean()
+  // Send null to clear a schedule
   @IsOptional()
-  published?: boolean;
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'publishAt cannot be in the past' })
+  publishAt?: Date | null;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'unpublishAt cannot be in the past' })
+  unpublishAt?: Date | null;
+
+  @IsOptional()
+  @IsBoolean()
+  commentsClosed?: boolean;
 
   @ArrayUnique()
   @IsArray()
@@ -40,4 +57,30 @@ export class UpdatePostDto extends PartialType(CreatePostDto) {
   @Type(() => Number)
   @IsPositive({ each: true })
   categoryIds?: number[];
+
+  // Replaces the post's tags, send [] to remove them all
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10, { message: 'A post can have at most 10 tags' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  // Send null to remove the cover image
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @IsPositive()
+  coverImageId?: number | null;
+
+  // Replaces the post's attachments
+  @IsOptional()
+  @ArrayUnique()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @Type(() => Number)
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  attachmentIds?: number[];
 }
@@ -0,0 +1,29 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsBoolean,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class UpsertPostTranslationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(10, { message: 'Content must be at least 10 characters long' })
+  @MaxLength(20000)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  content: string;
+
+  // Readers only get published translations, a new translation starts unpublished
+  @IsOptional()
+  @IsBoolean()
+  published?: boolean;
+}
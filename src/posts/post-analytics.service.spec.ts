@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, BadRequestException } from '@nestjs/common';
+import { DeviceClass, UserRole } from '@prisma/client';
+import { PostAnalyticsService } from './post-analytics.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  AnalyticsFormat,
+  AnalyticsGranularity,
+  PostAnalyticsQueryDto,
+} from './dto/post-analytics-query.dto';
+
+describe('PostAnalyticsService', () => {
+  let service: PostAnalyticsService;
+
+  const mockPrismaService = {
+    post: {
+      findUnique: jest.fn(),
+    },
+    postDailyView: {
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const query = (
+    overrides: Partial<PostAnalyticsQueryDto> = {},
+  ): PostAnalyticsQueryDto => ({
+    from: new Date('2026-10-12'),
+    to: new Date('2026-10-19'),
+    granularity: AnalyticsGranularity.DAY,
+    format: AnalyticsFormat.JSON,
+    ...overrides,
+  });
+
+  const rows = [
+    {
+      day: new Date('2026-10-12'),
+      referrer: 'google.com',
+      deviceClass: DeviceClass.MOBILE,
+      views: 5,
+    },
+    {
+      day: new Date('2026-10-12'),
+      referrer: '',
+      deviceClass: DeviceClass.DESKTOP,
+      views: 2,
+    },
+    {
+      day: new Date('2026-10-14'),
+      referrer: 'google.com',
+      deviceClass: DeviceClass.MOBILE,
+      views: 3,
+    },
+    {
+      day: new Date('2026-10-19'),
+      referrer: 'news.example.com',
+      deviceClass: DeviceClass.DESKTOP,
+      views: 1,
+    },
+  ];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostAnalyticsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostAnalyticsService>(PostAnalyticsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getAnalytics', () => {
+    it('returns daily views with referrer and device breakdowns', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        authors: [{ id: 1 }],
+      });
+      mockPrismaService.postDailyView.findMany.mockResolvedValue(rows);
+
+      const result = await service.getAnalytics(1, 7, UserRole.USER, query());
+
+      expect(result.totalViews).toBe(11);
+      expect(result.series).toHaveLength(8);
+      expect(result.series[0]).toEqual({ period: '2026-10-12', views: 7 });
+      expect(result.series[1]).toEqual({ period: '2026-10-13', views: 0 });
+      expect(result.referrers).toEqual([
+        { referrer: 'google.com', views: 8 },
+        { referrer: null, views: 2 },
+        { referrer: 'news.example.com', views: 1 },
+      ]);
+      expect(result.devices).toEqual([
+        { deviceClass: DeviceClass.MOBILE, views: 8 },
+        { deviceClass: DeviceClass.DESKTOP, views: 3 },
+      ]);
+    });
+
+    it('groups views by week starting on Monday', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        authors: [{ id: 1 }],
+      });
+      mockPrismaService.postDailyView.findMany.mockResolvedValue(rows);
+
+      const result = await service.getAnalytics(
+        1,
+        7,
+        UserRole.USER,
+        query({ granularity: AnalyticsGranularity.WEEK }),
+      );
+
+      expect(result.series).toEqual([
+        { period: '2026-10-12', views: 10 },
+        { period: '2026-10-19', views: 1 },
+      ]);
+    });
+
+    it('rejects users who are not an author of the post', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({ authors: [] });
+
+      await expect(
+        service.getAnalytics(1, 7, UserRole.USER, query()),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('rejects a range that ends before it starts', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({ authors: [] });
+
+      await expect(
+        service.getAnalytics(
+          1,
+          7,
+          UserRole.ADMIN,
+          query({ from: new Date('2026-10-20') }),
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('exports one row per period, referrer and device class', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({ authors: [] });
+      mockPrismaService.postDailyView.findMany.mockResolvedValue(rows);
+
+      const csv = await service.exportCsv(
+        1,
+        7,
+        UserRole.ADMIN,
+        query({ granularity: AnalyticsGranularity.WEEK }),
+      );
+
+      expect(csv).toBe(
+        [
+          'period,referrer,device_class,views',
+          '2026-10-12,google.com,mobile,8',
+          '2026-10-12,,desktop,2',
+          '2026-10-19,news.example.com,desktop,1',
+          '',
+        ].join('\r\n'),
+      );
+    });
+  });
+});
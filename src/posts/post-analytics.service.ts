@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { DeviceClass, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  AnalyticsGranularity,
+  PostAnalyticsQueryDto,
+} from './dto/post-analytics-query.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+interface AnalyticsRow {
+  period: string; // first day of the day or week, e.g. "2026-10-19"
+  referrer: string; // empty for direct visits
+  deviceClass: DeviceClass;
+  views: number;
+}
+
+@Injectable()
+export class PostAnalyticsService {
+  private readonly logger = new Logger(PostAnalyticsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  // GET THE VIEWS OF A POST OVER TIME WITH REFERRER AND DEVICE BREAKDOWNS (author or admin)
+  async getAnalytics(
+    id: number,
+    currentUserId: number,
+    userRole: UserRole,
+    query: PostAnalyticsQueryDto,
+  ) {
+    const { from, to, rows } = await this.loadRows(
+      id,
+      currentUserId,
+      userRole,
+      query,
+    );
+
+    // Every period of the range is listed, also the ones without views
+    const series = new Map<string, number>();
+    for (let day = from; day <= to; day = new Date(day.getTime() + DAY_MS))
+      series.set(this.period(day, query.granularity), 0);
+    const referrers = new Map<string, number>();
+    const devices = new Map<DeviceClass, number>();
+    rows.forEach(({ period, referrer, deviceClass, views }) => {
+      series.set(period, (series.get(period) ?? 0) + views);
+      referrers.set(referrer, (referrers.get(referrer) ?? 0) + views);
+      devices.set(deviceClass, (devices.get(deviceClass) ?? 0) + views);
+    });
+
+    return {
+      postId: id,
+      from: isoDate(from),
+      to: isoDate(to),
+      granularity: query.granularity,
+      totalViews: rows.reduce((sum, row) => sum + row.views, 0),
+      series: [...series].map(([period, views]) => ({ period, views })),
+      referrers: byViews(referrers).map(([referrer, views]) => ({
+        referrer: referrer || null,
+        views,
+      })),
+      devices: byViews(devices).map(([deviceClass, views]) => ({
+        deviceClass,
+        views,
+      })),
+    };
+  }
+
+  // EXPORT THE VIEWS OF A POST AS CSV (one row per period, referrer and device class)
+  async exportCsv(
+    id: number,
+    currentUserId: number,
+    userRole: UserRole,
+    query: PostAnalyticsQueryDto,
+  ) {
+    const { rows } = await this.loadRows(id, currentUserId, userRole, query);
+
+    // Daily rows of the same week are merged when exporting by week
+    const merged = new Map<string, AnalyticsRow>();
+    rows.forEach((row) => {
+      const key = `${row.period}|${row.referrer}|${row.deviceClass}`;
+      const existing = merged.get(key);
+      if (existing) existing.views += row.views;
+      else merged.set(key, { ...row });
+    });
+
+    const lines = [
+      ['period', 'referrer', 'device_class', 'views'],
+      ...[...merged.values()].map((row) => [
+        row.period,
+        row.referrer,
+        row.deviceClass.toLowerCase(),
+        String(row.views),
+      ]),
+    ];
+    return (
+      lines.map((line) => line.map(csvField).join(',')).join('\r\n') + '\r\n'
+    );
+  }
+
+  // Run every 10 minutes, roll the view log up into daily views per referrer and device class
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async rollupViews() {
+    try {
+      const count = await this.prisma.$transaction(async (prisma) => {
+        // Views logged while the job runs are left for the next run
+        const { _max } = await prisma.postViewEvent.aggregate({
+          _max: { id: true },
+        });
+        if (!_max.id) return 0;
+
+        // Views of posts deleted in the meantime have nothing to count towards and are dropped
+        await prisma.$executeRaw`
+          INSERT INTO PostDailyView (postId, day, referrer, deviceClass, views)
+          SELECT * FROM (
+            SELECT e.postId, DATE(e.viewedAt) AS day, e.referrer, e.deviceClass, COUNT(*) AS views
+            FROM PostViewEvent e JOIN Post p ON p.id = e.postId
+            WHERE e.id <= ${_max.id}
+            GROUP BY e.postId, DATE(e.viewedAt), e.referrer, e.deviceClass
+          ) AS daily
+          ON DUPLICATE KEY UPDATE views = PostDailyView.views + daily.views`;
+        const { count } = await prisma.postViewEvent.deleteMany({
+          where: { id: { lte: _max.id } },
+        });
+        return count;
+      });
+      this.logger.log(`Rolled up ${count} post views`);
+      return {
+        message: 'Post views rolled up successfully',
+        count,
+      };
+    } catch (error) {
+      this.logger.error('Failed to roll up post views', error);
+      throw error;
+    }
+  }
+
+  private async loadRows(
+    id: number,
+    currentUserId: number,
+    userRole: UserRole,
+    query: PostAnalyticsQueryDto,
+  ) {
+    const post = await this.prisma.post.findUnique({
+      where: { id, deletedAt: null },
+      select: {
+        authors: { where: { userId: currentUserId }, select: { id: true } },
+      },
+    });
+    if (!post) throw new NotFoundException(`Post with ID ${id} not found`);
+
+    // Authorization check if its admin or one of the post's authors
+    if (userRole !== UserRole.ADMIN && post.authors.length === 0)
+      throw new ForbiddenException(
+        'You do not have permission to view the analytics of this post',
+      );
+
+    const to = startOfDay(query.to ?? new Date());
+    const from = query.from
+      ? startOfDay(query.from)
+      : new Date(to.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+    if (from > to) throw new BadRequestException('from must be before to');
+    if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_RANGE_DAYS)
+      throw new BadRequestException(
+        `The range can span at most ${MAX_RANGE_DAYS} days`,
+      );
+
+    const rows = await this.prisma.postDailyView.findMany({
+      where: { postId: id, day: { gte: from, lte: to } },
+      select: { day: true, referrer: true, deviceClass: true, views: true },
+      orderBy: [{ day: 'asc' }, { views: 'desc' }, { id: 'asc' }],
+    });
+
+    return {
+      from,
+      to,
+      rows: rows.map(
+        ({ day, ...row }): AnalyticsRow => ({
+          ...row,
+          period: this.period(day, query.granularity),
+        }),
+      ),
+    };
+  }
+
+  // Weeks start on Monday
+  private period(day: Date, granularity: AnalyticsGranularity) {
+    if (granularity === AnalyticsGranularity.DAY) return isoDate(day);
+    const monday = new Date(
+      day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS,
+    );
+    return isoDate(monday);
+  }
+}
+
+function startOfDay(date: Date) {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function byViews<K>(totals: Map<K, number>) {
+  return [...totals].sort(([, a], [, b]) => b - a);
+}
+
+// Quote fields containing a separator, quote or line break (RFC 4180)
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,20 @@
+import { Prisma } from '@prisma/client';
+import { renderMarkdown } from '../common/utils/markdown.util';
+
+export enum PostContentFormat {
+  HTML = 'html',
+  MARKDOWN = 'markdown',
+}
+
+// Columns derived from a post's Markdown content, stored next to the source on every save
+export function renderPostContent(content: string) {
+  const { html, excerpt, wordCount, readingTime, toc } =
+    renderMarkdown(content);
+  return {
+    contentHtml: html,
+    excerpt,
+    wordCount,
+    readingTime,
+    toc: toc as unknown as Prisma.InputJsonArray,
+  };
+}
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { PostStatus, ReactionType } from '@prisma/client';
+import { PostReactionsService } from './post-reactions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PostReactionsService', () => {
+  let service: PostReactionsService;
+
+  const mockPrismaService = {
+    post: {
+      findUnique: jest.fn(),
+    },
+    postReaction: {
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+      groupBy: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostReactionsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostReactionsService>(PostReactionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('aggregates counts per post and flags the current user reactions', async () => {
+    mockPrismaService.postReaction.groupBy.mockResolvedValue([
+      { postId: 1, type: ReactionType.LIKE, _count: { _all: 3 } },
+      { postId: 1, type: ReactionType.LOVE, _count: { _all: 1 } },
+    ]);
+    mockPrismaService.postReaction.findMany.mockResolvedValue([
+      { postId: 1, type: ReactionType.LIKE },
+    ]);
+
+    const summaries = await service.summarize([1, 2], 7);
+
+    expect(summaries.get(1)).toMatchObject({
+      counts: { LIKE: 3, LOVE: 1, INSIGHTFUL: 0 },
+      total: 4,
+      reactedByMe: true,
+      myReactions: [ReactionType.LIKE],
+    });
+    expect(summaries.get(2)).toMatchObject({ total: 0, reactedByMe: false });
+  });
+
+  it('skips the current user lookup for anonymous readers', async () => {
+    mockPrismaService.postReaction.groupBy.mockResolvedValue([]);
+
+    await service.summarize([1]);
+
+    expect(mockPrismaService.postReaction.findMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses reactions on posts that are not published', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue({
+      id: 1,
+      status: PostStatus.DRAFT,
+    });
+
+    await expect(service.add(1, ReactionType.LIKE, 7)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(mockPrismaService.postReaction.upsert).not.toHaveBeenCalled();
+  });
+});
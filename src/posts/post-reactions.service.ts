@@ -0,0 +1,103 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PostStatus, ReactionType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface ReactionSummary {
+  counts: Record<ReactionType, number>;
+  total: number;
+  reactedByMe: boolean;
+  myReactions: ReactionType[];
+}
+
+@Injectable()
+export class PostReactionsService {
+  constructor(private prisma: PrismaService) {}
+
+  // ADD A REACTION (adding the same reaction twice is a no-op)
+  async add(postId: number, type: ReactionType, currentUserId: number) {
+    await this.findPublishedPost(postId);
+
+    await this.prisma.postReaction.upsert({
+      where: {
+        postId_userId_type: { postId, userId: currentUserId, type },
+      },
+      create: { postId, userId: currentUserId, type },
+      update: {},
+    });
+    return (await this.summarize([postId], currentUserId)).get(postId)!;
+  }
+
+  // REMOVE A REACTION
+  async remove(postId: number, type: ReactionType, currentUserId: number) {
+    await this.findPublishedPost(postId);
+
+    await this.prisma.postReaction.deleteMany({
+      where: { postId, userId: currentUserId, type },
+    });
+    return (await this.summarize([postId], currentUserId)).get(postId)!;
+  }
+
+  // Reaction counts per post, plus the current user's own reactions when logged in
+  async summarize(postIds: number[], currentUserId?: number) {
+    if (postIds.length === 0) return new Map<number, ReactionSummary>();
+
+    const [grouped, mine] = await Promise.all([
+      this.prisma.postReaction.groupBy({
+        by: ['postId', 'type'],
+        where: { postId: { in: postIds } },
+        _count: { _all: true },
+      }),
+      currentUserId
+        ? this.prisma.postReaction.findMany({
+            where: { postId: { in: postIds }, userId: currentUserId },
+            select: { postId: true, type: true },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const summaries = new Map<number, ReactionSummary>(
+      postIds.map((postId) => [postId, this.emptySummary()]),
+    );
+    grouped.forEach(({ postId, type, _count }) => {
+      const summary = summaries.get(postId)!;
+      summary.counts[type] = _count._all;
+      summary.total += _count._all;
+    });
+    mine.forEach(({ postId, type }) => {
+      const summary = summaries.get(postId)!;
+      summary.reactedByMe = true;
+      summary.myReactions.push(type);
+    });
+    return summaries;
+  }
+
+  // Attach reaction summaries to a list of posts
+  async attachTo<T extends { id: number }>(posts: T[], currentUserId?: number) {
+    const summaries = await this.summarize(
+      posts.map((post) => post.id),
+      currentUserId,
+    );
+    return posts.map((post) => ({
+      ...post,
+      reactions: summaries.get(post.id)!,
+    }));
+  }
+
+  private emptySummary(): ReactionSummary {
+    const counts = Object.fromEntries(
+      Object.values(ReactionType).map((type) => [type, 0]),
+    ) as Record<ReactionType, number>;
+    return { counts, total: 0, reactedByMe: false, myReactions: [] };
+  }
+
+  // Only published posts can be reacted to
+  private async findPublishedPost(postId: number) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, deletedAt: null },
+      select: { id: true, status: true },
+    });
+    if (!post || post.status !== PostStatus.PUBLISHED)
+      throw new NotFoundException(`Post with ID ${postId} not found`);
+    return post;
+  }
+}
@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostsService } from './posts.service';
+import { PostReactionsService } from './post-reactions.service';
+import { TagsService } from '../tags/tags.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { SeriesService } from '../series/series.service';
+import { PostTranslationsService } from './post-translations.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PostRevisionsService', () => {
+  let service: PostRevisionsService;
+  let postsService: PostsService;
+
+  const mockPrismaService = {
+    post: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    postRevision: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+  };
+
+  const currentPost = {
+    id: 1,
+    title: 'Current title',
+    content: 'intro\nnew line\noutro',
+    categories: [{ id: 1 }, { id: 3 }],
+  };
+  const revision = {
+    id: 7,
+    postId: 1,
+    title: 'Old title',
+    content: 'intro\nold line\noutro',
+    categoryIds: [1, 2],
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    editor: { id: 2, name: 'Author' },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostRevisionsService,
+        PostsService,
+        PostReactionsService,
+        TagsService,
+        SeriesService,
+        PostTranslationsService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SitemapService, useValue: { invalidate: jest.fn() } },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostRevisionsService>(PostRevisionsService);
+    postsService = module.get<PostsService>(PostsService);
+    jest
+      .spyOn(postsService, 'getEditablePost')
+      .mockResolvedValue(
+        currentPost as unknown as Awaited<
+          ReturnType<PostsService['getEditablePost']>
+        >,
+      );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('lists revisions newest first with a capped page size', async () => {
+    mockPrismaService.postRevision.findMany.mockResolvedValue([]);
+    const getEditablePost = jest.spyOn(postsService, 'getEditablePost');
+
+    await service.findAll(1, 2, UserRole.USER, 20, 500);
+
+    expect(getEditablePost).toHaveBeenCalledWith(1, 2, UserRole.USER);
+    expect(mockPrismaService.postRevision.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { postId: 1 },
+        skip: 20,
+        take: 100,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      }),
+    );
+  });
+
+  it('only lists revisions of posts the user may edit', async () => {
+    jest
+      .spyOn(postsService, 'getEditablePost')
+      .mockRejectedValue(new ForbiddenException());
+
+    await expect(service.findAll(1, 4, UserRole.USER)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(mockPrismaService.postRevision.findMany).not.toHaveBeenCalled();
+  });
+
+  it('diffs a revision against the current post', async () => {
+    mockPrismaService.postRevision.findFirst.mockResolvedValue(revision);
+
+    const diff = await service.diff(1, 7, 2, UserRole.USER);
+
+    expect(mockPrismaService.postRevision.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 7, postId: 1 } }),
+    );
+    expect(diff.title).toEqual({
+      revision: 'Old title',
+      current: 'Current title',
+      changed: true,
+    });
+    expect(diff.categories).toEqual({ added: [3], removed: [2] });
+    expect(diff.content).toEqual({
+      additions: 1,
+      deletions: 1,
+      lines: [
+        { type: 'unchanged', line: 'intro' },
+        { type: 'removed', line: 'old line' },
+        { type: 'added', line: 'new line' },
+        { type: 'unchanged', line: 'outro' },
+      ],
+    });
+  });
+
+  it('rejects revisions of other posts', async () => {
+    mockPrismaService.postRevision.findFirst.mockResolvedValue(null);
+
+    await expect(service.diff(1, 99, 2, UserRole.USER)).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.restore(1, 99, 2, UserRole.USER)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('restores a revision through a regular update', async () => {
+    mockPrismaService.postRevision.findFirst.mockResolvedValue(revision);
+    const update = jest
+      .spyOn(postsService, 'update')
+      .mockResolvedValue({} as Awaited<ReturnType<PostsService['update']>>);
+
+    await service.restore(1, 7, 2, UserRole.USER);
+
+    expect(update).toHaveBeenCalledWith(
+      1,
+      {
+        title: 'Old title',
+        content: 'intro\nold line\noutro',
+        categoryIds: [1, 2],
+      },
+      2,
+      UserRole.USER,
+    );
+  });
+});
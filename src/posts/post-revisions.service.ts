@@ -0,0 +1,117 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PostsService } from './posts.service';
+import { diffLines } from '../common/utils/diff.util';
+
+@Injectable()
+export class PostRevisionsService {
+  constructor(
+    private prisma: PrismaService,
+    private postsService: PostsService,
+  ) {}
+
+  // GET ALL REVISIONS OF A POST (newest first)
+  async findAll(
+    postId: number,
+    currentUserId: number,
+    userRole: UserRole,
+    skip?: number,
+    take?: number,
+  ) {
+    await this.postsService.getEditablePost(postId, currentUserId, userRole);
+
+    return this.prisma.postRevision.findMany({
+      where: { postId },
+      skip: skip ?? 0,
+      take: Math.min(take ?? 10, 100), // cap page size to 100
+      select: {
+        id: true,
+        title: true,
+        categoryIds: true,
+        createdAt: true,
+        editor: { select: { id: true, name: true } },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  // DIFF A REVISION AGAINST THE CURRENT VERSION OF THE POST
+  async diff(
+    postId: number,
+    revisionId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const post = await this.postsService.getEditablePost(
+      postId,
+      currentUserId,
+      userRole,
+    );
+    const revision = await this.findRevision(postId, revisionId);
+
+    const revisionCategoryIds = revision.categoryIds as number[];
+    const currentCategoryIds = post.categories.map((c) => c.id);
+    const lines = diffLines(revision.content, post.content);
+
+    return {
+      revisionId: revision.id,
+      postId,
+      createdAt: revision.createdAt,
+      editor: revision.editor,
+      title: {
+        revision: revision.title,
+        current: post.title,
+        changed: revision.title !== post.title,
+      },
+      categories: {
+        added: currentCategoryIds.filter(
+          (id) => !revisionCategoryIds.includes(id),
+        ),
+        removed: revisionCategoryIds.filter(
+          (id) => !currentCategoryIds.includes(id),
+        ),
+      },
+      content: {
+        additions: lines.filter((line) => line.type === 'added').length,
+        deletions: lines.filter((line) => line.type === 'removed').length,
+        lines,
+      },
+    };
+  }
+
+  // RESTORE A POST TO A PREVIOUS REVISION
+  async restore(
+    postId: number,
+    revisionId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.postsService.getEditablePost(postId, currentUserId, userRole);
+    const revision = await this.findRevision(postId, revisionId);
+
+    // Restoring goes through a regular update, so the replaced version is kept as a revision too
+    return this.postsService.update(
+      postId,
+      {
+        title: revision.title,
+        content: revision.content,
+        categoryIds: revision.categoryIds as number[],
+      },
+      currentUserId,
+      userRole,
+    );
+  }
+
+  private async findRevision(postId: number, revisionId: number) {
+    const revision = await this.prisma.postRevision.findFirst({
+      where: { id: revisionId, postId },
+      include: { editor: { select: { id: true, name: true } } },
+    });
+    if (!revision)
+      throw new NotFoundException(
+        `Revision with ID ${revisionId} not found for post ${postId}`,
+      );
+    return revision;
+  }
+}
@@ -0,0 +1,27 @@
+import { PostStatus, UserRole } from '@prisma/client';
+
+// Editorial workflow: which status changes are allowed and which roles may make them
+// USER here means the post's author, any other non-admin user cannot edit the post at all
+export const POST_STATUS_TRANSITIONS: Record<
+  PostStatus,
+  Partial<Record<PostStatus, UserRole[]>>
+> = {
+  [PostStatus.DRAFT]: {
+    [PostStatus.IN_REVIEW]: [UserRole.USER, UserRole.ADMIN], // submit for review
+  },
+  [PostStatus.IN_REVIEW]: {
+    [PostStatus.APPROVED]: [UserRole.ADMIN], // approve
+    [PostStatus.DRAFT]: [UserRole.USER, UserRole.ADMIN], // withdraw (author) or reject (admin)
+  },
+  [PostStatus.APPROVED]: {
+    [PostStatus.PUBLISHED]: [UserRole.USER, UserRole.ADMIN],
+    [PostStatus.DRAFT]: [UserRole.USER, UserRole.ADMIN],
+  },
+  [PostStatus.PUBLISHED]: {
+    [PostStatus.DRAFT]: [UserRole.USER, UserRole.ADMIN], // unpublish
+    [PostStatus.ARCHIVED]: [UserRole.USER, UserRole.ADMIN],
+  },
+  [PostStatus.ARCHIVED]: {
+    [PostStatus.DRAFT]: [UserRole.USER, UserRole.ADMIN],
+  },
+};
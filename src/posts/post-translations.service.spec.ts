@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PostTranslationsService } from './post-translations.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PostTranslationsService', () => {
+  let service: PostTranslationsService;
+
+  const mockPrismaService = {
+    post: {
+      findUnique: jest.fn(),
+    },
+    postTranslation: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostTranslationsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostTranslationsService>(PostTranslationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('localize', () => {
+    const posts = [
+      { id: 1, title: 'Hello', excerpt: 'Hi' },
+      { id: 2, title: 'Second', excerpt: 'Two' },
+    ];
+
+    it('serves the requested locale where a published translation exists', async () => {
+      mockPrismaService.postTranslation.findMany
+        .mockResolvedValueOnce([{ postId: 1, locale: 'fr' }])
+        .mockResolvedValueOnce([
+          {
+            postId: 1,
+            locale: 'fr',
+            title: 'Bonjour',
+            content: 'Contenu en français',
+            excerpt: 'Salut',
+          },
+        ]);
+
+      const result = await service.localize(posts, ['fr-ca', 'en']);
+
+      expect(result).toEqual([
+        {
+          id: 1,
+          title: 'Bonjour',
+          excerpt: 'Salut',
+          locale: 'fr',
+          availableLocales: ['en', 'fr'],
+        },
+        {
+          id: 2,
+          title: 'Second',
+          excerpt: 'Two',
+          locale: 'en',
+          availableLocales: ['en'],
+        },
+      ]);
+    });
+
+    it('falls back to the default locale without reading any translation', async () => {
+      mockPrismaService.postTranslation.findMany.mockResolvedValueOnce([
+        { postId: 1, locale: 'fr' },
+      ]);
+
+      const result = await service.localize(posts, ['de']);
+
+      expect(result.map((post) => post.locale)).toEqual(['en', 'en']);
+      expect(result[0].title).toBe('Hello');
+      expect(mockPrismaService.postTranslation.findMany).toHaveBeenCalledTimes(
+        1,
+      );
+    });
+  });
+
+  describe('upsert', () => {
+    const dto = { title: 'Bonjour', content: 'Contenu en français' };
+
+    it('renders the translation and keeps it unpublished by default', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        id: 1,
+        authors: [{ id: 5 }],
+      });
+
+      await service.upsert(1, 'FR', dto, 2, UserRole.USER);
+
+      expect(mockPrismaService.postTranslation.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { postId_locale: { postId: 1, locale: 'fr' } },
+          create: expect.objectContaining({
+            title: 'Bonjour',
+            contentHtml: '<p>Contenu en français</p>\n',
+            published: false,
+          }) as object,
+          update: expect.objectContaining({ published: undefined }) as object,
+        }),
+      );
+    });
+
+    it('rejects the default locale and unsupported locales', async () => {
+      await expect(
+        service.upsert(1, 'en', dto, 2, UserRole.ADMIN),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.upsert(1, 'de', dto, 2, UserRole.ADMIN),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('only lets the post authors translate a post', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        id: 1,
+        authors: [],
+      });
+
+      await expect(
+        service.upsert(1, 'fr', dto, 2, UserRole.USER),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
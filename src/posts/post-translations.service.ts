@@ -0,0 +1,213 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { renderPostContent } from './post-content';
+import { pickLocale } from '../common/utils/locale.util';
+import { UpsertPostTranslationDto } from './dto/upsert-post-translation.dto';
+
+const DEFAULT_LOCALE = 'en';
+const DEFAULT_SUPPORTED_LOCALES = 'en,fr';
+
+// Post columns a translation replaces when the post is served in its locale
+const translatedFieldsSelect = {
+  title: true,
+  content: true,
+  contentHtml: true,
+  excerpt: true,
+  wordCount: true,
+  readingTime: true,
+  toc: true,
+} satisfies Prisma.PostTranslationSelect;
+
+const translationSelect = {
+  locale: true,
+  ...translatedFieldsSelect,
+  published: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.PostTranslationSelect;
+
+@Injectable()
+export class PostTranslationsService {
+  readonly defaultLocale: string;
+  private readonly supportedLocales: string[];
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.defaultLocale = (
+      this.configService.get<string>('DEFAULT_LOCALE') || DEFAULT_LOCALE
+    ).toLowerCase();
+    this.supportedLocales = (
+      this.configService.get<string>('SUPPORTED_LOCALES') ||
+      DEFAULT_SUPPORTED_LOCALES
+    )
+      .split(',')
+      .map((locale) => locale.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  // GET ALL TRANSLATIONS OF A POST (post authors and admins, unpublished ones included)
+  async findAll(postId: number, currentUserId: number, userRole: UserRole) {
+    await this.getEditablePost(postId, currentUserId, userRole);
+
+    return this.prisma.postTranslation.findMany({
+      where: { postId },
+      select: {
+        locale: true,
+        title: true,
+        excerpt: true,
+        published: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { locale: 'asc' },
+    });
+  }
+
+  // CREATE OR REPLACE THE TRANSLATION OF A POST IN A LOCALE
+  async upsert(
+    postId: number,
+    locale: string,
+    upsertPostTranslationDto: UpsertPostTranslationDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    locale = this.validateLocale(locale);
+    await this.getEditablePost(postId, currentUserId, userRole);
+
+    const { title, content, published } = upsertPostTranslationDto;
+    const data = { title, content, ...renderPostContent(content) };
+
+    return this.prisma.postTranslation.upsert({
+      where: { postId_locale: { postId, locale } },
+      create: { ...data, postId, locale, published: published ?? false },
+      // Leaving published out keeps the translation's current state
+      update: { ...data, published },
+      select: translationSelect,
+    });
+  }
+
+  // DELETE THE TRANSLATION OF A POST IN A LOCALE
+  async remove(
+    postId: number,
+    locale: string,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getEditablePost(postId, currentUserId, userRole);
+
+    const { count } = await this.prisma.postTranslation.deleteMany({
+      where: { postId, locale: locale.toLowerCase() },
+    });
+    if (count === 0)
+      throw new NotFoundException(
+        `Post with ID ${postId} has no translation in locale ${locale}`,
+      );
+    return { message: 'Translation deleted' };
+  }
+
+  // Serve every post in the best requested locale it is published in (the default locale otherwise)
+  // and list the locales readers can get it in
+  async localize<T extends { id: number }>(posts: T[], requested: string[]) {
+    const published = await this.prisma.postTranslation.findMany({
+      where: { postId: { in: posts.map((post) => post.id) }, published: true },
+      select: { postId: true, locale: true },
+    });
+
+    const localesByPost = new Map<number, string[]>();
+    published.forEach(({ postId, locale }) =>
+      localesByPost.set(postId, [...(localesByPost.get(postId) ?? []), locale]),
+    );
+    const chosen = posts.map((post) => {
+      const available = [
+        this.defaultLocale,
+        ...(localesByPost.get(post.id) ?? []).sort(),
+      ];
+      return {
+        post,
+        available,
+        locale: pickLocale(requested, available, this.defaultLocale),
+      };
+    });
+
+    // Only the translations that are actually served are read in full
+    const wanted = chosen.filter(({ locale }) => locale !== this.defaultLocale);
+    const translations = wanted.length
+      ? await this.prisma.postTranslation.findMany({
+          where: {
+            OR: wanted.map(({ post, locale }) => ({ postId: post.id, locale })),
+          },
+          select: { postId: true, locale: true, ...translatedFieldsSelect },
+        })
+      : [];
+
+    return chosen.map(({ post, available, locale }) => {
+      const translation = translations.find(
+        (t) => t.postId === post.id && t.locale === locale,
+      );
+      // Only the columns the post was read with are replaced, e.g. lists leave out contentHtml
+      const translated = translation
+        ? Object.fromEntries(
+            Object.keys(translatedFieldsSelect)
+              .filter((field) => field in post)
+              .map((field) => [
+                field,
+                translation[field as keyof typeof translatedFieldsSelect],
+              ]),
+          )
+        : {};
+      return {
+        ...post,
+        ...(translated as Partial<T>),
+        locale,
+        availableLocales: available,
+      };
+    });
+  }
+
+  // Translations are for the supported locales other than the default one, the post itself is in the default locale
+  private validateLocale(locale: string) {
+    const normalized = locale.toLowerCase();
+    if (normalized === this.defaultLocale)
+      throw new BadRequestException(
+        `Posts are written in ${this.defaultLocale}, edit the post itself instead`,
+      );
+    if (!this.supportedLocales.includes(normalized))
+      throw new BadRequestException(
+        `Locale must be one of: ${this.supportedLocales
+          .filter((supported) => supported !== this.defaultLocale)
+          .join(', ')}`,
+      );
+    return normalized;
+  }
+
+  private async getEditablePost(
+    postId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, deletedAt: null },
+      select: {
+        id: true,
+        authors: { where: { userId: currentUserId }, select: { id: true } },
+      },
+    });
+    if (!post) throw new NotFoundException(`Post with ID ${postId} not found`);
+
+    // Authorization check if its admin or one of the post's authors
+    if (userRole !== UserRole.ADMIN && post.authors.length === 0)
+      throw new ForbiddenException(
+        'You do not have permission to edit this post',
+      );
+    return post;
+  }
+}
@@ -0,0 +1,119 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PostViewsService } from './post-views.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PostViewsService', () => {
+  let service: PostViewsService;
+
+  const mockPrismaService = {
+    postViewEvent: {
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostViewsService,
+        SchedulerRegistry,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostViewsService>(PostViewsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should count a repeat view by the same reader only once', () => {
+    expect(service.recordView(1, { userId: 7 })).toBe(true);
+    expect(service.recordView(1, { userId: 7 })).toBe(false);
+    expect(service.recordView(2, { userId: 7 })).toBe(true);
+    expect(
+      service.recordView(1, { ip: '10.0.0.1', userAgent: 'Mozilla/5.0' }),
+    ).toBe(true);
+  });
+
+  it('should ignore bots', () => {
+    expect(
+      service.recordView(1, { ip: '10.0.0.1', userAgent: 'Googlebot/2.1' }),
+    ).toBe(false);
+  });
+
+  it('should flush buffered views in one batch', async () => {
+    mockPrismaService.$transaction.mockResolvedValue([]);
+    service.recordView(1, { userId: 1 });
+    service.recordView(1, { userId: 2 });
+    service.recordView(3, { userId: 1 });
+
+    await expect(service.flush()).resolves.toBe(2);
+    // One view count update and one hourly bucket upsert per post
+    const statements = (
+      mockPrismaService.$executeRaw.mock.calls as [
+        TemplateStringsArray,
+        ...unknown[],
+      ][]
+    ).map(([sql, ...values]) => ({ sql: sql.join('?'), values }));
+    expect(statements).toHaveLength(4);
+    expect(statements[0].sql).toContain('UPDATE Post SET viewCount');
+    expect(statements[0].values).toEqual([2, 1]);
+    expect(statements[1].sql).toContain('INSERT INTO PostViewBucket');
+    expect(mockPrismaService.postViewEvent.createMany).toHaveBeenCalledTimes(1);
+    await expect(service.flush()).resolves.toBe(0);
+  });
+
+  it('should log the referring host and device class of every view', async () => {
+    mockPrismaService.$transaction.mockResolvedValue([]);
+    service.recordView(1, {
+      userId: 1,
+      userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0) Mobile/15E148',
+      referrer: 'https://www.google.com/search?q=blog',
+    });
+    service.recordView(1, {
+      userId: 2,
+      userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_0) Mobile/15E148',
+    });
+    service.recordView(1, {
+      userId: 3,
+      userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/131.0',
+      referrer: 'not a url',
+    });
+
+    await service.flush();
+
+    expect(mockPrismaService.postViewEvent.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          postId: 1,
+          referrer: 'google.com',
+          deviceClass: 'MOBILE',
+        }),
+        expect.objectContaining({ referrer: '', deviceClass: 'TABLET' }),
+        expect.objectContaining({ referrer: '', deviceClass: 'DESKTOP' }),
+      ],
+    });
+  });
+
+  it('should keep views when a flush fails', async () => {
+    mockPrismaService.$transaction.mockRejectedValueOnce(new Error('down'));
+    service.recordView(1, { userId: 1 });
+
+    await expect(service.flush()).resolves.toBe(0);
+    mockPrismaService.$transaction.mockResolvedValue([]);
+    await expect(service.flush()).resolves.toBe(1);
+  });
+});
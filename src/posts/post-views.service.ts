@@ -0,0 +1,169 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { createHash } from 'crypto';
+import { DeviceClass, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const FLUSH_INTERVAL_NAME = 'post-views-flush';
+const DEFAULT_DEDUPE_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+const DEFAULT_FLUSH_INTERVAL_MS = 10 * 1000; // 10 seconds
+const HOUR_MS = 60 * 60 * 1000;
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|headless|lighthouse/i;
+const TABLET_USER_AGENT =
+  /ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i;
+const MOBILE_USER_AGENT = /mobi|iphone|ipod|android|windows phone|blackberry/i;
+const REFERRER_MAX_LENGTH = 255;
+
+export interface PostViewer {
+  userId?: number;
+  ip?: string;
+  userAgent?: string;
+  referrer?: string; // Referer header of the request
+}
+
+@Injectable()
+// Counts post views without a database write per request:
+// repeat views by the same viewer within the dedupe window are ignored and
+// the remaining views are buffered in memory and written in batches
+export class PostViewsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PostViewsService.name);
+  private readonly dedupeWindowMs: number;
+  private readonly flushIntervalMs: number;
+
+  // "<postId>:<viewerKey>" -> time until which further views are ignored
+  private readonly recentViews = new Map<string, number>();
+  // postId -> views not yet written to the database
+  private pendingViews = new Map<number, number>();
+  // Counted views not yet written to the analytics log
+  private pendingEvents: Prisma.PostViewEventCreateManyInput[] = [];
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.dedupeWindowMs =
+      Number(this.configService.get('POST_VIEW_DEDUPE_WINDOW_MS')) ||
+      DEFAULT_DEDUPE_WINDOW_MS;
+    this.flushIntervalMs =
+      Number(this.configService.get('POST_VIEW_FLUSH_INTERVAL_MS')) ||
+      DEFAULT_FLUSH_INTERVAL_MS;
+  }
+
+  onModuleInit() {
+    const interval = setInterval(() => void this.flush(), this.flushIntervalMs);
+    this.schedulerRegistry.addInterval(FLUSH_INTERVAL_NAME, interval);
+  }
+
+  // Write whatever is still buffered before the app shuts down
+  async onModuleDestroy() {
+    this.schedulerRegistry.deleteInterval(FLUSH_INTERVAL_NAME);
+    await this.flush();
+  }
+
+  // Record a view of a post, returns false when the view was not counted (bot or repeat view)
+  recordView(postId: number, viewer: PostViewer) {
+    if (viewer.userAgent && BOT_USER_AGENT.test(viewer.userAgent)) return false;
+
+    const key = `${postId}:${this.viewerKey(viewer)}`;
+    const now = Date.now();
+    const ignoreUntil = this.recentViews.get(key);
+    if (ignoreUntil && ignoreUntil > now) return false;
+
+    this.recentViews.set(key, now + this.dedupeWindowMs);
+    this.pendingViews.set(postId, (this.pendingViews.get(postId) ?? 0) + 1);
+    this.pendingEvents.push({
+      postId,
+      viewedAt: new Date(now),
+      referrer: referrerHost(viewer.referrer),
+      deviceClass: deviceClass(viewer.userAgent),
+    });
+    return true;
+  }
+
+  // Write buffered views to the database in one transaction
+  async flush() {
+    this.pruneRecentViews();
+    if (this.pendingViews.size === 0) return 0;
+
+    const batch = this.pendingViews;
+    const events = this.pendingEvents;
+    this.pendingViews = new Map();
+    this.pendingEvents = [];
+
+    // Views are also counted per hour for trending posts
+    const hour = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+
+    try {
+      await this.prisma.$transaction([
+        ...[...batch].flatMap(([postId, views]) => [
+          // Raw so updatedAt keeps meaning "content changed" (feeds and the sitemap rely on it), a deleted post is simply skipped
+          this.prisma.$executeRaw`
+            UPDATE Post SET viewCount = viewCount + ${views} WHERE id = ${postId}`,
+          // Same for the bucket, it is only inserted while the post still exists
+          this.prisma.$executeRaw`
+            INSERT INTO PostViewBucket (postId, hour, views)
+            SELECT id, ${hour}, ${views} FROM Post WHERE id = ${postId}
+            ON DUPLICATE KEY UPDATE views = views + ${views}`,
+        ]),
+        // Views of deleted posts are dropped when the log is rolled up
+        this.prisma.postViewEvent.createMany({ data: events }),
+      ]);
+      return batch.size;
+    } catch (error) {
+      // Put the views back so they are retried on the next flush
+      batch.forEach((views, postId) =>
+        this.pendingViews.set(
+          postId,
+          (this.pendingViews.get(postId) ?? 0) + views,
+        ),
+      );
+      this.pendingEvents.unshift(...events);
+      this.logger.error('Failed to flush post views', error);
+      return 0;
+    }
+  }
+
+  // Logged in users are recognised by id, anonymous visitors by a hash of their IP and user agent
+  private viewerKey({ userId, ip, userAgent }: PostViewer) {
+    if (userId) return `user:${userId}`;
+    const fingerprint = createHash('sha256')
+      .update(`${ip ?? ''}|${userAgent ?? ''}`)
+      .digest('hex');
+    return `anon:${fingerprint}`;
+  }
+
+  private pruneRecentViews() {
+    const now = Date.now();
+    this.recentViews.forEach((ignoreUntil, key) => {
+      if (ignoreUntil <= now) this.recentViews.delete(key);
+    });
+  }
+}
+
+// Host of the referring page without "www.", empty for direct visits and unparsable headers
+function referrerHost(referrer?: string) {
+  if (!referrer) return '';
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return '';
+    return url.hostname.replace(/^www\./, '').slice(0, REFERRER_MAX_LENGTH);
+  } catch {
+    return '';
+  }
+}
+
+// Tablets are checked first, their user agents often also match the mobile pattern
+function deviceClass(userAgent?: string) {
+  if (!userAgent) return DeviceClass.UNKNOWN;
+  if (TABLET_USER_AGENT.test(userAgent)) return DeviceClass.TABLET;
+  if (MOBILE_USER_AGENT.test(userAgent)) return DeviceClass.MOBILE;
+  return DeviceClass.DESKTOP;
+}
@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PostStatus } from '@prisma/client';
+import { PostsBulkService } from './posts-bulk.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import {
+  BULK_POSTS_MAX,
+  BulkPostAction,
+  BulkPostsDto,
+} from './dto/bulk-posts.dto';
+
+describe('PostsBulkService', () => {
+  let service: PostsBulkService;
+
+  const mockPrismaService = {
+    post: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    category: {
+      findMany: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    postStatusTransition: {
+      create: jest.fn(),
+    },
+    postRevision: {
+      create: jest.fn(),
+    },
+    postAuthor: {
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockSitemapService = { invalidate: jest.fn() };
+
+  const post = (id: number, status: PostStatus, categoryIds = [1]) => ({
+    id,
+    title: `Post ${id}`,
+    content: 'Some content',
+    status,
+    authorId: 1,
+    categories: categoryIds.map((id) => ({ id })),
+  });
+
+  const dto = (overrides: Partial<BulkPostsDto>): BulkPostsDto => ({
+    action: BulkPostAction.PUBLISH,
+    dryRun: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostsBulkService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: SitemapService,
+          useValue: mockSitemapService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PostsBulkService>(PostsBulkService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('requires either postIds or a filter', async () => {
+    await expect(service.run(dto({}), 1)).rejects.toThrow(BadRequestException);
+    await expect(
+      service.run(dto({ postIds: [1], filter: {} }), 1),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('publishes approved posts and reports the others per item', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue([
+      post(1, PostStatus.APPROVED),
+      post(2, PostStatus.PUBLISHED),
+      post(3, PostStatus.DRAFT),
+    ]);
+
+    const result = await service.run(dto({ postIds: [1, 2, 3, 4] }), 9);
+
+    expect(result.results).toEqual([
+      { id: 1, outcome: 'changed', message: 'APPROVED -> PUBLISHED' },
+      { id: 2, outcome: 'unchanged', message: 'Post is PUBLISHED' },
+      {
+        id: 3,
+        outcome: 'skipped',
+        message: 'Cannot move a post from DRAFT to PUBLISHED',
+      },
+      { id: 4, outcome: 'not_found', message: 'Post with ID 4 not found' },
+    ]);
+    expect(result).toMatchObject({
+      total: 4,
+      changed: 1,
+      unchanged: 1,
+      skipped: 1,
+      notFound: 1,
+    });
+    expect(mockPrismaService.post.update).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.postStatusTransition.create).toHaveBeenCalledWith({
+      data: {
+        postId: 1,
+        fromStatus: PostStatus.APPROVED,
+        toStatus: PostStatus.PUBLISHED,
+        actorId: 9,
+      },
+    });
+    expect(mockSitemapService.invalidate).toHaveBeenCalled();
+  });
+
+  it('only reports the changes on a dry run', async () => {
+    mockPrismaService.category.findMany.mockResolvedValue([{ id: 1 }]);
+    mockPrismaService.post.findMany.mockResolvedValue([
+      post(1, PostStatus.PUBLISHED, [1, 2]),
+      post(2, PostStatus.PUBLISHED, [1]),
+    ]);
+
+    const result = await service.run(
+      dto({
+        action: BulkPostAction.REMOVE_CATEGORIES,
+        postIds: [1, 2],
+        categoryIds: [1],
+        dryRun: true,
+      }),
+      9,
+    );
+
+    expect(result.results).toEqual([
+      { id: 1, outcome: 'changed', message: 'Categories [1, 2] -> [2]' },
+      {
+        id: 2,
+        outcome: 'skipped',
+        message: 'At least one category is required',
+      },
+    ]);
+    expect(mockPrismaService.post.update).not.toHaveBeenCalled();
+    expect(mockPrismaService.postRevision.create).not.toHaveBeenCalled();
+    expect(mockSitemapService.invalidate).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown categories before touching any post', async () => {
+    mockPrismaService.category.findMany.mockResolvedValue([]);
+
+    await expect(
+      service.run(
+        dto({
+          action: BulkPostAction.ADD_CATEGORIES,
+          postIds: [1],
+          categoryIds: [5],
+        }),
+        9,
+      ),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a filter matching more posts than a batch may hold', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue(
+      Array.from({ length: BULK_POSTS_MAX + 1 }, (_, index) =>
+        post(index + 1, PostStatus.DRAFT),
+      ),
+    );
+
+    await expect(
+      service.run(
+        dto({
+          action: BulkPostAction.DELETE,
+          filter: { status: PostStatus.DRAFT },
+        }),
+        9,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockPrismaService.post.update).not.toHaveBeenCalled();
+  });
+
+  it('hands posts over to a new owner', async () => {
+    mockPrismaService.user.findUnique.mockResolvedValue({ id: 2 });
+    mockPrismaService.post.findMany.mockResolvedValue([
+      post(1, PostStatus.DRAFT),
+    ]);
+
+    const result = await service.run(
+      dto({
+        action: BulkPostAction.REASSIGN_AUTHOR,
+        postIds: [1],
+        authorId: 2,
+      }),
+      9,
+    );
+
+    expect(result.changed).toBe(1);
+    expect(mockPrismaService.postAuthor.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { postId_userId: { postId: 1, userId: 2 } },
+      }),
+    );
+    expect(mockPrismaService.post.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { authorId: 2 },
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PostAuthorRole, PostStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { POST_STATUS_TRANSITIONS } from './post-status.transitions';
+import {
+  BULK_CATEGORY_ACTIONS,
+  BULK_POSTS_MAX,
+  BulkPostAction,
+  BulkPostsDto,
+  BulkPostsFilterDto,
+} from './dto/bulk-posts.dto';
+
+// A full batch touches a few rows per post, more than the default 5 seconds an interactive transaction gets
+const BULK_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+const bulkPostSelect = {
+  id: true,
+  title: true,
+  content: true,
+  status: true,
+  authorId: true,
+  categories: { select: { id: true } },
+} satisfies Prisma.PostSelect;
+
+type BulkPost = Prisma.PostGetPayload<{ select: typeof bulkPostSelect }>;
+
+export type BulkPostOutcome = 'changed' | 'unchanged' | 'skipped' | 'not_found';
+
+export interface BulkPostResult {
+  id: number;
+  outcome: BulkPostOutcome;
+  message?: string;
+}
+
+@Injectable()
+export class PostsBulkService {
+  constructor(
+    private prisma: PrismaService,
+    private sitemapService: SitemapService,
+  ) {}
+
+  // RUN AN ACTION ON MANY POSTS AT ONCE (admin only, all or nothing, a dry run only reports what would change)
+  async run(bulkPostsDto: BulkPostsDto, currentUserId: number) {
+    const { action, postIds, filter, dryRun } = bulkPostsDto;
+
+    if (!postIds === !filter)
+      throw new BadRequestException('Provide either postIds or filter');
+    if (
+      filter?.createdFrom &&
+      filter.createdTo &&
+      filter.createdFrom > filter.createdTo
+    )
+      throw new BadRequestException('createdFrom must be before createdTo');
+    await this.validateTargets(bulkPostsDto);
+
+    const results = await this.prisma.$transaction(
+      async (prisma) => {
+        const posts = postIds
+          ? await prisma.post.findMany({
+              where: { id: { in: postIds }, deletedAt: null },
+              select: bulkPostSelect,
+            })
+          : await this.findFiltered(prisma, filter!);
+        const postsById = new Map(posts.map((post) => [post.id, post]));
+
+        // Posts are handled in the order they were asked for, one at a time so every write sees the previous ones
+        const results: BulkPostResult[] = [];
+        for (const id of postIds ?? posts.map((post) => post.id)) {
+          const post = postsById.get(id);
+          results.push(
+            post
+              ? await this.apply(prisma, post, bulkPostsDto, currentUserId)
+              : {
+                  id,
+                  outcome: 'not_found',
+                  message: `Post with ID ${id} not found`,
+                },
+          );
+        }
+        return results;
+      },
+      { timeout: BULK_TRANSACTION_TIMEOUT_MS },
+    );
+
+    const count = (outcome: BulkPostOutcome) =>
+      results.filter((result) => result.outcome === outcome).length;
+    if (!dryRun && count('changed') > 0) this.sitemapService.invalidate();
+
+    return {
+      action,
+      dryRun,
+      total: results.length,
+      changed: count('changed'),
+      unchanged: count('unchanged'),
+      skipped: count('skipped'),
+      notFound: count('not_found'),
+      results,
+    };
+  }
+
+  // Categories and the new author are checked once up front instead of failing every post
+  private async validateTargets({
+    action,
+    categoryIds,
+    authorId,
+  }: BulkPostsDto) {
+    if (BULK_CATEGORY_ACTIONS.includes(action)) {
+      const categories = await this.prisma.category.findMany({
+        where: { id: { in: categoryIds } },
+        select: { id: true },
+      });
+      if (categories.length !== categoryIds!.length)
+        throw new NotFoundException('One or more categories not found');
+    }
+
+    if (action === BulkPostAction.REASSIGN_AUTHOR) {
+      const author = await this.prisma.user.findUnique({
+        where: { id: authorId },
+        select: { id: true },
+      });
+      if (!author)
+        throw new NotFoundException(`Author with ID ${authorId} not found`);
+    }
+  }
+
+  private async findFiltered(
+    prisma: Prisma.TransactionClient,
+    filter: BulkPostsFilterDto,
+  ) {
+    const { status, categoryId, authorId, createdFrom, createdTo } = filter;
+
+    // One more than the cap is read to tell a full batch from a filter that matches too much
+    const posts = await prisma.post.findMany({
+      where: {
+        deletedAt: null,
+        status,
+        categories: categoryId ? { some: { id: categoryId } } : undefined,
+        authors: authorId ? { some: { userId: authorId } } : undefined,
+        createdAt:
+          createdFrom || createdTo
+            ? { gte: createdFrom, lte: createdTo }
+            : undefined,
+      },
+      select: bulkPostSelect,
+      orderBy: { id: 'asc' },
+      take: BULK_POSTS_MAX + 1,
+    });
+    if (posts.length > BULK_POSTS_MAX)
+      throw new BadRequestException(
+        `The filter matches more than ${BULK_POSTS_MAX} posts, narrow it down`,
+      );
+    return posts;
+  }
+
+  private async apply(
+    prisma: Prisma.TransactionClient,
+    post: BulkPost,
+    bulkPostsDto: BulkPostsDto,
+    currentUserId: number,
+  ): Promise<BulkPostResult> {
+    const { action, dryRun } = bulkPostsDto;
+    const { id } = post;
+
+    switch (action) {
+      case BulkPostAction.PUBLISH:
+      case BulkPostAction.UNPUBLISH: {
+        // Unpublishing sends a post back to draft, as the editorial workflow does
+        const status =
+          action === BulkPostAction.PUBLISH
+            ? PostStatus.PUBLISHED
+            : PostStatus.DRAFT;
+        if (
+          action === BulkPostAction.PUBLISH
+            ? post.status === PostStatus.PUBLISHED
+            : post.status !== PostStatus.PUBLISHED
+        )
+          return {
+            id,
+            outcome: 'unchanged',
+            message: `Post is ${post.status}`,
+          };
+        if (
+          !POST_STATUS_TRANSITIONS[post.status][status]?.includes(
+            UserRole.ADMIN,
+          )
+        )
+          return {
+            id,
+            outcome: 'skipped',
+            message: `Cannot move a post from ${post.status} to ${status}`,
+          };
+
+        if (!dryRun) {
+          await prisma.postStatusTransition.create({
+            data: {
+              postId: id,
+              fromStatus: post.status,
+              toStatus: status,
+              actorId: currentUserId,
+            },
+          });
+          await prisma.post.update({
+            where: { id },
+            data: {
+              status,
+              // Same as a manual transition, a pending schedule for it is replaced
+              publishAt: status === PostStatus.PUBLISHED ? null : undefined,
+              unpublishAt:
+                post.status === PostStatus.PUBLISHED ? null : undefined,
+            },
+          });
+        }
+        return {
+          id,
+          outcome: 'changed',
+          message: `${post.status} -> ${status}`,
+        };
+      }
+
+      case BulkPostAction.DELETE:
+        if (!dryRun)
+          await prisma.post.update({
+            where: { id },
+            data: { deletedAt: new Date() },
+          });
+        return { id, outcome: 'changed', message: 'Moved to trash' };
+
+      case BulkPostAction.ADD_CATEGORIES:
+      case BulkPostAction.REMOVE_CATEGORIES:
+      case BulkPostAction.REPLACE_CATEGORIES: {
+        const categoryIds = bulkPostsDto.categoryIds!;
+        const currentIds = post.categories.map((category) => category.id);
+        const nextIds =
+          action === BulkPostAction.ADD_CATEGORIES
+            ? [...new Set([...currentIds, ...categoryIds])]
+            : action === BulkPostAction.REMOVE_CATEGORIES
+              ? currentIds.filter((id) => !categoryIds.includes(id))
+              : categoryIds;
+
+        const unchanged =
+          nextIds.length === currentIds.length &&
+          nextIds.every((id) => currentIds.includes(id));
+        if (unchanged)
+          return {
+            id,
+            outcome: 'unchanged',
+            message: 'Categories are unchanged',
+          };
+        if (nextIds.length === 0)
+          return {
+            id,
+            outcome: 'skipped',
+            message: 'At least one category is required',
+          };
+
+        if (!dryRun) {
+          // Category changes are kept in the revision history, as when editing a single post
+          await prisma.postRevision.create({
+            data: {
+              postId: id,
+              editorId: currentUserId,
+              title: post.title,
+              content: post.content,
+              categoryIds: currentIds,
+            },
+          });
+          await prisma.post.update({
+            where: { id },
+            data: { categories: { set: nextIds.map((id) => ({ id })) } },
+          });
+        }
+        return {
+          id,
+          outcome: 'changed',
+          message: `Categories [${currentIds.join(', ')}] -> [${nextIds.join(', ')}]`,
+        };
+      }
+
+      case BulkPostAction.REASSIGN_AUTHOR: {
+        const authorId = bulkPostsDto.authorId!;
+        if (post.authorId === authorId)
+          return {
+            id,
+            outcome: 'unchanged',
+            message: `Author is already ${authorId}`,
+          };
+
+        if (!dryRun) {
+          // A new owner takes over the post, the previous owner stays on as a contributor
+          await prisma.postAuthor.updateMany({
+            where: { postId: id, userId: post.authorId },
+            data: { role: PostAuthorRole.CONTRIBUTOR },
+          });
+          await prisma.postAuthor.upsert({
+            where: { postId_userId: { postId: id, userId: authorId } },
+            create: {
+              postId: id,
+              userId: authorId,
+              role: PostAuthorRole.OWNER,
+            },
+            update: { role: PostAuthorRole.OWNER },
+          });
+          await prisma.post.update({ where: { id }, data: { authorId } });
+        }
+        return {
+          id,
+          outcome: 'changed',
+          message: `Author ${post.authorId} -> ${authorId}`,
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PostStatus } from '@prisma/client';
+import { PostsSchedulerService } from './posts-scheduler.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PostsSchedulerService', () => {
+  let service: PostsSchedulerService;
+
+  const mockPrismaService = {
+    post: { findMany: jest.fn(), updateMany: jest.fn() },
+    postStatusTransition: { createMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const mockSitemapService = { invalidate: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostsSchedulerService,
+        { provide: SitemapService, useValue: mockSitemapService },
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<PostsSchedulerService>(PostsSchedulerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('publishes approved posts whose publishAt has passed', async () => {
+    mockPrismaService.post.findMany
+      .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+      .mockResolvedValueOnce([]);
+    mockPrismaService.post.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.processScheduledPosts()).resolves.toEqual({
+      published: 2,
+      unpublished: 0,
+    });
+
+    expect(mockPrismaService.post.findMany).toHaveBeenNthCalledWith(1, {
+      where: {
+        status: PostStatus.APPROVED,
+        publishAt: { lte: expect.any(Date) as Date },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    for (const id of [1, 2])
+      expect(mockPrismaService.post.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: PostStatus.APPROVED,
+          publishAt: { lte: expect.any(Date) as Date },
+          deletedAt: null,
+          id,
+        },
+        data: { status: PostStatus.PUBLISHED, publishAt: null },
+      });
+    expect(
+      mockPrismaService.postStatusTransition.createMany,
+    ).toHaveBeenCalledWith({
+      data: [1, 2].map((postId) => ({
+        postId,
+        fromStatus: PostStatus.APPROVED,
+        toStatus: PostStatus.PUBLISHED,
+        reason: 'Scheduled',
+      })),
+    });
+    expect(mockSitemapService.invalidate).toHaveBeenCalled();
+  });
+
+  it('moves published posts back to draft once unpublishAt has passed', async () => {
+    mockPrismaService.post.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 3 }]);
+    mockPrismaService.post.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.processScheduledPosts()).resolves.toEqual({
+      published: 0,
+      unpublished: 1,
+    });
+
+    expect(mockPrismaService.post.findMany).toHaveBeenNthCalledWith(2, {
+      where: {
+        status: PostStatus.PUBLISHED,
+        unpublishAt: { lte: expect.any(Date) as Date },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    expect(mockPrismaService.post.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: PostStatus.PUBLISHED,
+        unpublishAt: { lte: expect.any(Date) as Date },
+        deletedAt: null,
+        id: 3,
+      },
+      data: { status: PostStatus.DRAFT, unpublishAt: null },
+    });
+  });
+
+  it('skips posts that changed since they were found', async () => {
+    mockPrismaService.post.findMany
+      .mockResolvedValueOnce([{ id: 1 }, { id: 2 }])
+      .mockResolvedValueOnce([]);
+    // Post 1 was edited back into review in the meantime
+    mockPrismaService.post.updateMany
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 });
+
+    await expect(service.processScheduledPosts()).resolves.toEqual({
+      published: 1,
+      unpublished: 0,
+    });
+
+    expect(
+      mockPrismaService.postStatusTransition.createMany,
+    ).toHaveBeenCalledWith({
+      data: [
+        {
+          postId: 2,
+          fromStatus: PostStatus.APPROVED,
+          toStatus: PostStatus.PUBLISHED,
+          reason: 'Scheduled',
+        },
+      ],
+    });
+  });
+
+  it('leaves everything alone when nothing is due', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue([]);
+
+    await service.processScheduledPosts();
+
+    expect(mockPrismaService.post.updateMany).not.toHaveBeenCalled();
+    expect(mockSitemapService.invalidate).not.toHaveBeenCalled();
+  });
+});
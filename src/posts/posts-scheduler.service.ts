@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+
+@Injectable()
+export class PostsSchedulerService {
+  private readonly logger = new Logger(PostsSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private sitemapService: SitemapService,
+  ) {}
+
+  // Run every minute, publish and unpublish posts whose scheduled time has come
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processScheduledPosts() {
+    const now = new Date();
+    try {
+      // Only approved posts go live, posts still in review wait until they are approved
+      const published = await this.applySchedule(
+        {
+          status: PostStatus.APPROVED,
+          publishAt: { lte: now },
+          deletedAt: null,
+        },
+        PostStatus.PUBLISHED,
+        { publishAt: null },
+      );
+      const unpublished = await this.applySchedule(
+        {
+          status: PostStatus.PUBLISHED,
+          unpublishAt: { lte: now },
+          deletedAt: null,
+        },
+        PostStatus.DRAFT,
+        { unpublishAt: null },
+      );
+
+      if (published || unpublished) {
+        this.sitemapService.invalidate();
+        this.logger.log(
+          `Published ${published} and unpublished ${unpublished} scheduled posts`,
+        );
+      }
+      return { published, unpublished };
+    } catch (error) {
+      this.logger.error('Failed to process scheduled posts', error);
+      throw error;
+    }
+  }
+
+  // Move the matching posts to a new status and record the transitions, returns the number of posts moved
+  private async applySchedule(
+    where: Prisma.PostWhereInput & { status: PostStatus },
+    toStatus: PostStatus,
+    clearSchedule: { publishAt?: null; unpublishAt?: null },
+  ) {
+    return await this.prisma.$transaction(async (prisma) => {
+      const posts = await prisma.post.findMany({
+        where,
+        select: { id: true },
+      });
+      if (posts.length === 0) return 0;
+
+      // Each post is only moved if it still matches, it may have changed since it was found (e.g. edited back into review)
+      // The schedule is cleared once applied so a later manual change is not overridden
+      const movedIds: number[] = [];
+      for (const { id } of posts) {
+        const { count } = await prisma.post.updateMany({
+          where: { ...where, id },
+          data: { status: toStatus, ...clearSchedule },
+        });
+        if (count > 0) movedIds.push(id);
+      }
+      if (movedIds.length === 0) return 0;
+
+      await prisma.postStatusTransition.createMany({
+        data: movedIds.map((postId) => ({
+          postId,
+          fromStatus: where.status,
+          toStatus,
+          reason: 'Scheduled',
+        })),
+      });
+      return movedIds.length;
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+
+export const DEFAULT_POST_TRASH_RETENTION_DAYS = 30;
+
+@Injectable()
+export class PostsTrashCleanupService {
+  private readonly logger = new Logger(PostsTrashCleanupService.name);
+  private readonly retentionDays: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.retentionDays =
+      Number(this.configService.get('POST_TRASH_RETENTION_DAYS')) ||
+      DEFAULT_POST_TRASH_RETENTION_DAYS;
+  }
+
+  // Run every day at 3 AM, permanently delete posts that have been in the trash longer than the retention period
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeTrashedPosts() {
+    const cutoff = new Date(
+      Date.now() - this.retentionDays * 24 * 60 * 60 * 1000,
+    );
+    try {
+      // Comments, reactions, revisions and reading list entries go with the post
+      const result = await this.prisma.post.deleteMany({
+        where: { deletedAt: { lt: cutoff } },
+      });
+      this.logger.log(`Purged ${result.count} trashed posts`);
+      return {
+        message: 'Trashed posts purged successfully',
+        count: result.count,
+      };
+    } catch (error) {
+      this.logger.error('Failed to purge trashed posts', error);
+      throw error;
+    }
+  }
+}
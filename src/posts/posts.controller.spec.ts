@@ -1,6 +1,18 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { PostsController } from './posts.controller';
 import { PostsService } from './posts.service';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostViewsService } from './post-views.service';
+import { PostReactionsService } from './post-reactions.service';
+import { RelatedPostsService } from './related-posts.service';
+import { TrendingPostsService } from './trending-posts.service';
+import { PostAnalyticsService } from './post-analytics.service';
+import { PostsBulkService } from './posts-bulk.service';
+import { PostTranslationsService } from './post-translations.service';
+import { TagsService } from '../tags/tags.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { SeriesService } from '../series/series.service';
 import { PrismaService } from '../prisma/prisma.service';
 
 describe('PostsController', () => {
@@ -21,10 +33,25 @@ describe('PostsController', () => {
       controllers: [PostsController],
       providers: [
         PostsService,
+        PostReactionsService,
+        RelatedPostsService,
+        TrendingPostsService,
+        PostAnalyticsService,
+        PostsBulkService,
+        PostTranslationsService,
+        TagsService,
+        SeriesService,
+        { provide: SitemapService, useValue: { invalidate: jest.fn() } },
+        PostRevisionsService,
         {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        {
+          provide: PostViewsService,
+          useValue: { recordView: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -6,22 +6,65 @@ import {
   Patch,
   Param,
   Delete,
+  Put,
   Query,
   ParseIntPipe,
+  ParseEnumPipe,
   DefaultValuePipe,
   HttpCode,
   HttpStatus,
+  Req,
+  Res,
+  UseInterceptors,
+  UseGuards,
+  Header,
 } from '@nestjs/common';
+import type { Request, Response } from 'express';
 import { PostsService } from './posts.service';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostViewsService } from './post-views.service';
+import { PostReactionsService } from './post-reactions.service';
+import { RelatedPostsService } from './related-posts.service';
+import { TrendingPostsService } from './trending-posts.service';
+import { PostAnalyticsService } from './post-analytics.service';
+import { PostsBulkService } from './posts-bulk.service';
+import { PostTranslationsService } from './post-translations.service';
 import { CreatePostDto } from './dto/create-post.dto';
 import { UpdatePostDto } from './dto/update-post.dto';
+import { TransitionPostDto } from './dto/transition-post.dto';
+import { SearchPostsQueryDto } from './dto/search-posts-query.dto';
+import { FindPostsQueryDto } from './dto/find-posts-query.dto';
+import { FindPostQueryDto } from './dto/find-post-query.dto';
+import { FindRelatedPostsQueryDto } from './dto/find-related-posts-query.dto';
+import { FindTrendingPostsQueryDto } from './dto/find-trending-posts-query.dto';
+import {
+  AnalyticsFormat,
+  PostAnalyticsQueryDto,
+} from './dto/post-analytics-query.dto';
+import { BulkPostsDto } from './dto/bulk-posts.dto';
+import { UpsertPostTranslationDto } from './dto/upsert-post-translation.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
 import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
 import { Public } from 'src/auth/decorators/public.decorator';
-import { UserRole } from '@prisma/client';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { requestedLocales } from 'src/common/utils/locale.util';
+import { ReactionType, UserRole } from '@prisma/client';
 
 @Controller('posts')
 export class PostsController {
-  constructor(private readonly postsService: PostsService) {}
+  constructor(
+    private readonly postsService: PostsService,
+    private readonly postRevisionsService: PostRevisionsService,
+    private readonly postViewsService: PostViewsService,
+    private readonly postReactionsService: PostReactionsService,
+    private readonly relatedPostsService: RelatedPostsService,
+    private readonly trendingPostsService: TrendingPostsService,
+    private readonly postAnalyticsService: PostAnalyticsService,
+    private readonly postsBulkService: PostsBulkService,
+    private readonly postTranslationsService: PostTranslationsService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -35,32 +78,189 @@ export class PostsController {
     return this.postsService.create(createPostDto);
   }
 
-  // GET ALL POSTS (optional filters & pagination)
+  // RUN AN ACTION ON MANY POSTS AT ONCE (admin only, dryRun reports the changes without making them)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Post('bulk')
+  @HttpCode(HttpStatus.OK)
+  bulk(
+    @Body() bulkPostsDto: BulkPostsDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.postsBulkService.run(bulkPostsDto, user.id);
+  }
+
+  // GET ALL POSTS (optional filters, offset or cursor pagination, locale from ?lang= or Accept-Language)
   @Public()
   @Get()
+  @Header('Vary', 'Accept-Language')
+  @UseInterceptors(PaginationLinksInterceptor)
   findAll(
-    @Query('published') published?: string,
-    @Query('skip', new DefaultValuePipe(0), ParseIntPipe) skip?: number,
-    @Query('take', new DefaultValuePipe(10), ParseIntPipe) take?: number,
+    @Query() query: FindPostsQueryDto,
+    @Req() req: Request,
+    @CurrentUser() user?: { id: number; role: UserRole },
   ) {
-    // Convert string to boolean, but only if the parameter is provided
-    const publishedBool =
-      published === undefined ? undefined : published === 'true';
-    return this.postsService.findAll(publishedBool, skip, take);
+    return this.postsService.findAll(
+      query,
+      user?.id,
+      user?.role,
+      requestedLocales(query.lang, req.get('accept-language')),
+    );
   }
 
-  // SEARCH POSTS BY TITLE OR CONTENT
+  // SEARCH PUBLISHED POSTS BY TITLE OR CONTENT (relevance ranked, paginated)
   @Public()
   @Get('search')
-  searchPosts(@Query('q') query: string) {
-    return this.postsService.searchPosts(query);
+  searchPosts(@Query() searchQuery: SearchPostsQueryDto) {
+    return this.postsService.searchPosts(searchQuery);
   }
 
-  // GET A SINGLE POST
+  // GET TRENDING POSTS (window=24h, 7d or 30d, recomputed every 10 minutes)
+  @Public()
+  @Get('trending')
+  findTrending(@Query() query: FindTrendingPostsQueryDto) {
+    return this.trendingPostsService.findTrending(query.window, query.limit);
+  }
+
+  // GET SCHEDULED POSTS (own queue, admins see all)
+  @Get('scheduled')
+  findScheduled(@CurrentUser() user: { id: number; role: UserRole }) {
+    return this.postsService.findScheduled(user.id, user.role);
+  }
+
+  // GET TRASHED POSTS (own trash, admins see all)
+  @Get('trash')
+  @UseInterceptors(PaginationLinksInterceptor)
+  findTrash(
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postsService.findTrash(user.id, user.role, query);
+  }
+
+  // GET A SINGLE POST BY SLUG (body as html or markdown, locale from ?lang= or Accept-Language)
+  @Public()
+  @Get('slug/:slug')
+  @Header('Vary', 'Accept-Language')
+  async findBySlug(
+    @Param('slug') slug: string,
+    @Query() query: FindPostQueryDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() user?: { id: number; role: UserRole },
+  ) {
+    const result = await this.postsService.findBySlug(
+      slug,
+      user?.id,
+      user?.role,
+      query.format,
+      requestedLocales(query.lang, req.get('accept-language')),
+    );
+    if ('movedTo' in result) {
+      // Old slug, send the client to the post's current address
+      const location = `/api/posts/slug/${result.movedTo}`;
+      res.status(HttpStatus.MOVED_PERMANENTLY).location(location);
+      return { message: 'Post has moved', slug: result.movedTo, location };
+    }
+    this.recordView(result.post.id, req, user);
+    return result.post;
+  }
+
+  // GET A SINGLE POST (body as html or markdown, locale from ?lang= or Accept-Language)
   @Public()
   @Get(':id')
-  findOne(@Param('id', ParseIntPipe) id: number) {
-    return this.postsService.findOne(id);
+  @Header('Vary', 'Accept-Language')
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: FindPostQueryDto,
+    @Req() req: Request,
+    @CurrentUser() user?: { id: number; role: UserRole },
+  ) {
+    const post = await this.postsService.findOne(
+      id,
+      user?.id,
+      user?.role,
+      query.format,
+      requestedLocales(query.lang, req.get('accept-language')),
+    );
+    this.recordView(post.id, req, user);
+    return post;
+  }
+
+  // GET POSTS RELATED TO A POST (shared categories, tags and title words, recency and popularity)
+  @Public()
+  @Get(':id/related')
+  findRelated(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: FindRelatedPostsQueryDto,
+  ) {
+    return this.relatedPostsService.findRelated(id, query.limit);
+  }
+
+  // GET VIEW ANALYTICS OF A POST (author or admin, format=csv downloads the same data as CSV)
+  @Get(':id/analytics')
+  async analytics(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PostAnalyticsQueryDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    if (query.format === AnalyticsFormat.CSV) {
+      const csv = await this.postAnalyticsService.exportCsv(
+        id,
+        user.id,
+        user.role,
+        query,
+      );
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="post-${id}-analytics.csv"`,
+      );
+      return csv;
+    }
+    return this.postAnalyticsService.getAnalytics(
+      id,
+      user.id,
+      user.role,
+      query,
+    );
+  }
+
+  // GET ALL TRANSLATIONS OF A POST (post authors and admins)
+  @Get(':id/translations')
+  findTranslations(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postTranslationsService.findAll(id, user.id, user.role);
+  }
+
+  // CREATE OR REPLACE THE TRANSLATION OF A POST IN A LOCALE
+  @Put(':id/translations/:locale')
+  upsertTranslation(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('locale') locale: string,
+    @Body() upsertPostTranslationDto: UpsertPostTranslationDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postTranslationsService.upsert(
+      id,
+      locale,
+      upsertPostTranslationDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  // DELETE THE TRANSLATION OF A POST IN A LOCALE
+  @Delete(':id/translations/:locale')
+  removeTranslation(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('locale') locale: string,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postTranslationsService.remove(id, locale, user.id, user.role);
   }
 
   // UPDATE A POST
@@ -73,7 +273,100 @@ export class PostsController {
     return this.postsService.update(id, updatePostDto, user.id, user.role);
   }
 
-  // DELETE A POST
+  // MOVE A POST THROUGH THE EDITORIAL WORKFLOW (DRAFT, IN_REVIEW, APPROVED, PUBLISHED, ARCHIVED)
+  @Post(':id/transition')
+  @HttpCode(HttpStatus.OK)
+  transition(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transitionPostDto: TransitionPostDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postsService.transition(
+      id,
+      transitionPostDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  // GET WORKFLOW HISTORY OF A POST
+  @Get(':id/transitions')
+  findTransitions(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postsService.findTransitions(id, user.id, user.role);
+  }
+
+  // GET REVISION HISTORY OF A POST
+  @Get(':id/revisions')
+  findRevisions(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+    @Query('skip', new DefaultValuePipe(0), ParseIntPipe) skip?: number,
+    @Query('take', new DefaultValuePipe(10), ParseIntPipe) take?: number,
+  ) {
+    return this.postRevisionsService.findAll(
+      id,
+      user.id,
+      user.role,
+      skip,
+      take,
+    );
+  }
+
+  // DIFF A REVISION AGAINST THE CURRENT POST
+  @Get(':id/revisions/:revId/diff')
+  diffRevision(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('revId', ParseIntPipe) revId: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postRevisionsService.diff(id, revId, user.id, user.role);
+  }
+
+  // RESTORE A POST TO A REVISION
+  @Post(':id/revisions/:revId/restore')
+  @HttpCode(HttpStatus.OK)
+  restoreRevision(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('revId', ParseIntPipe) revId: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postRevisionsService.restore(id, revId, user.id, user.role);
+  }
+
+  // REACT TO A POST (at most once per reaction type)
+  @Put(':id/reactions/:type')
+  addReaction(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('type', new ParseEnumPipe(ReactionType)) type: ReactionType,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.postReactionsService.add(id, type, user.id);
+  }
+
+  // REMOVE A REACTION FROM A POST
+  @Delete(':id/reactions/:type')
+  removeReaction(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('type', new ParseEnumPipe(ReactionType)) type: ReactionType,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.postReactionsService.remove(id, type, user.id);
+  }
+
+  // RESTORE A POST FROM THE TRASH
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  restore(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.postsService.restore(id, user.id, user.role);
+  }
+
+  // MOVE A POST TO THE TRASH
   @Delete(':id')
   async remove(
     @Param('id', ParseIntPipe) id: number,
@@ -81,4 +374,14 @@ export class PostsController {
   ) {
     return this.postsService.remove(id, user.id, user.role);
   }
+
+  // Count a view of the post, deduplicated per reader (user id, or IP and user agent when anonymous)
+  private recordView(postId: number, req: Request, user?: { id: number }) {
+    this.postViewsService.recordView(postId, {
+      userId: user?.id,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+      referrer: req.get('referer'),
+    });
+  }
 }
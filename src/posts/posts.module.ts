@@ -1,9 +1,35 @@
 import { Module } from '@nestjs/common';
 import { PostsService } from './posts.service';
 import { PostsController } from './posts.controller';
+import { PostRevisionsService } from './post-revisions.service';
+import { PostsSchedulerService } from './posts-scheduler.service';
+import { PostsTrashCleanupService } from './posts-trash-cleanup.service';
+import { PostViewsService } from './post-views.service';
+import { PostReactionsService } from './post-reactions.service';
+import { RelatedPostsService } from './related-posts.service';
+import { TrendingPostsService } from './trending-posts.service';
+import { PostAnalyticsService } from './post-analytics.service';
+import { PostsBulkService } from './posts-bulk.service';
+import { PostTranslationsService } from './post-translations.service';
+import { TagsModule } from '../tags/tags.module';
+import { SitemapModule } from '../sitemap/sitemap.module';
+import { SeriesModule } from '../series/series.module';
 
 @Module({
+  imports: [TagsModule, SitemapModule, SeriesModule],
   controllers: [PostsController],
-  providers: [PostsService],
+  providers: [
+    PostsService,
+    PostRevisionsService,
+    PostsSchedulerService,
+    PostsTrashCleanupService,
+    PostViewsService,
+    PostReactionsService,
+    RelatedPostsService,
+    TrendingPostsService,
+    PostAnalyticsService,
+    PostsBulkService,
+    PostTranslationsService,
+  ],
 })
 export class PostsModule {}
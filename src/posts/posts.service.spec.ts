@@ -1,5 +1,18 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PostStatus, UserRole } from '@prisma/client';
 import { PostsService } from './posts.service';
+import { PostReactionsService } from './post-reactions.service';
+import { TagsService } from '../tags/tags.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { SeriesService } from '../series/series.service';
+import { PostTranslationsService } from './post-translations.service';
 import { PrismaService } from '../prisma/prisma.service';
 
 describe('PostsService', () => {
@@ -12,13 +25,63 @@ describe('PostsService', () => {
       findUnique: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
+      count: jest.fn(),
     },
+    postStatusTransition: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+    postRevision: { create: jest.fn() },
+    postSlugHistory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: { findUnique: jest.fn() },
+    category: { findMany: jest.fn() },
+    postReaction: { groupBy: jest.fn(), findMany: jest.fn() },
+    postTranslation: { findMany: jest.fn() },
+    seriesPart: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
   };
 
+  // A post as loaded for editing, owned by user 2
+  const editablePost = (overrides: object = {}) => ({
+    id: 1,
+    authorId: 2,
+    title: 'Approved title',
+    content: 'Approved content',
+    slug: 'approved-title',
+    status: PostStatus.DRAFT,
+    publishAt: null,
+    unpublishAt: null,
+    categories: [],
+    tags: [],
+    attachments: [],
+    authors: [],
+    ...overrides,
+  });
+
   beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    mockPrismaService.postReaction.groupBy.mockResolvedValue([]);
+    mockPrismaService.postReaction.findMany.mockResolvedValue([]);
+    mockPrismaService.postTranslation.findMany.mockResolvedValue([]);
+    mockPrismaService.seriesPart.findUnique.mockResolvedValue(null);
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PostsService,
+        PostReactionsService,
+        TagsService,
+        SeriesService,
+        PostTranslationsService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SitemapService, useValue: { invalidate: jest.fn() } },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -32,4 +95,584 @@ describe('PostsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('moves a deleted post to the trash instead of deleting it', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue({ id: 1, authorId: 2 });
+    mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+
+    await service.remove(1, 2, UserRole.USER);
+
+    expect(mockPrismaService.post.delete).not.toHaveBeenCalled();
+    expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 1, deletedAt: null },
+        data: { deletedAt: expect.any(Date) as Date },
+      }),
+    );
+  });
+
+  it('only restores trashed posts of the current user', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValueOnce(null);
+    await expect(service.restore(1, 2, UserRole.USER)).rejects.toThrow(
+      NotFoundException,
+    );
+
+    mockPrismaService.post.findUnique.mockResolvedValueOnce({ authorId: 3 });
+    await expect(service.restore(1, 2, UserRole.USER)).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    mockPrismaService.post.findUnique.mockResolvedValueOnce({ authorId: 3 });
+    mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+    await service.restore(1, 2, UserRole.ADMIN);
+    expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { deletedAt: null } }),
+    );
+  });
+
+  describe('editorial workflow', () => {
+    it('lets an author submit a draft for review and records who did it', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(editablePost());
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+
+      await service.transition(
+        1,
+        { status: PostStatus.IN_REVIEW },
+        2,
+        UserRole.USER,
+      );
+
+      expect(
+        mockPrismaService.postStatusTransition.create,
+      ).toHaveBeenCalledWith({
+        data: {
+          postId: 1,
+          fromStatus: PostStatus.DRAFT,
+          toStatus: PostStatus.IN_REVIEW,
+          actorId: 2,
+          reason: undefined,
+        },
+      });
+      expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: PostStatus.IN_REVIEW,
+          }) as object,
+        }),
+      );
+    });
+
+    it('only lets admins approve a post', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ status: PostStatus.IN_REVIEW }),
+      );
+
+      await expect(
+        service.transition(
+          1,
+          { status: PostStatus.APPROVED },
+          2,
+          UserRole.USER,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+      await service.transition(
+        1,
+        { status: PostStatus.APPROVED },
+        3,
+        UserRole.ADMIN,
+      );
+      expect(
+        mockPrismaService.postStatusTransition.create,
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects transitions outside the workflow', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(editablePost());
+
+      await expect(
+        service.transition(
+          1,
+          { status: PostStatus.PUBLISHED },
+          3,
+          UserRole.ADMIN,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.transition(1, { status: PostStatus.DRAFT }, 3, UserRole.ADMIN),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.post.update).not.toHaveBeenCalled();
+    });
+
+    it('requires a reason to reject a post in review', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ status: PostStatus.IN_REVIEW }),
+      );
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+
+      await expect(
+        service.transition(1, { status: PostStatus.DRAFT }, 3, UserRole.ADMIN),
+      ).rejects.toThrow(BadRequestException);
+
+      // The author withdrawing their own post needs no reason
+      await service.transition(
+        1,
+        { status: PostStatus.DRAFT },
+        2,
+        UserRole.USER,
+      );
+
+      await service.transition(
+        1,
+        { status: PostStatus.DRAFT, reason: 'Needs sources' },
+        3,
+        UserRole.ADMIN,
+      );
+      expect(
+        mockPrismaService.postStatusTransition.create,
+      ).toHaveBeenLastCalledWith({
+        data: expect.objectContaining({
+          actorId: 3,
+          reason: 'Needs sources',
+        }) as object,
+      });
+    });
+
+    it('lists the transition history of an editable post, newest first', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(editablePost());
+      mockPrismaService.postStatusTransition.findMany.mockResolvedValue([]);
+
+      await service.findTransitions(1, 2, UserRole.USER);
+
+      expect(
+        mockPrismaService.postStatusTransition.findMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { postId: 1 },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      );
+
+      await expect(
+        service.findTransitions(1, 4, UserRole.USER),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('sends an approved post back to review when its author changes the text', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ status: PostStatus.APPROVED }),
+      );
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+
+      await service.update(
+        1,
+        { content: 'Something else entirely' },
+        2,
+        UserRole.USER,
+      );
+
+      expect(
+        mockPrismaService.postStatusTransition.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: PostStatus.APPROVED,
+          toStatus: PostStatus.IN_REVIEW,
+          actorId: 2,
+        }) as object,
+      });
+      expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: PostStatus.IN_REVIEW,
+          }) as object,
+        }),
+      );
+    });
+
+    it('keeps an approved post approved when an admin edits it', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ status: PostStatus.APPROVED }),
+      );
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+
+      await service.update(
+        1,
+        { content: 'Fixed a typo here' },
+        3,
+        UserRole.ADMIN,
+      );
+
+      expect(
+        mockPrismaService.postStatusTransition.create,
+      ).not.toHaveBeenCalled();
+      expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.not.objectContaining({
+            status: expect.anything() as unknown,
+          }) as object,
+        }),
+      );
+    });
+
+    it('only shows unpublished posts to their authors and admins', async () => {
+      const draft = {
+        id: 1,
+        status: PostStatus.DRAFT,
+        content: 'Draft',
+        contentHtml: '<p>Draft</p>',
+        authors: [{ role: 'OWNER', user: { id: 2, name: 'Author' } }],
+      };
+      mockPrismaService.post.findUnique.mockResolvedValue(draft);
+
+      await expect(service.findOne(1)).rejects.toThrow(NotFoundException);
+      await expect(service.findOne(1, 4, UserRole.USER)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(service.findOne(1, 2, UserRole.USER)).resolves.toEqual(
+        expect.objectContaining({ id: 1 }),
+      );
+      await expect(service.findOne(1, 4, UserRole.ADMIN)).resolves.toEqual(
+        expect.objectContaining({ id: 1 }),
+      );
+
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        ...draft,
+        status: PostStatus.PUBLISHED,
+      });
+      await expect(service.findOne(1)).resolves.toEqual(
+        expect.objectContaining({ id: 1 }),
+      );
+    });
+
+    it('flags scheduled posts that still wait for approval', async () => {
+      const publishAt = new Date('2030-01-01T00:00:00Z');
+      mockPrismaService.post.findMany.mockResolvedValue([
+        { id: 1, status: PostStatus.IN_REVIEW, publishAt, unpublishAt: null },
+        { id: 2, status: PostStatus.APPROVED, publishAt, unpublishAt: null },
+      ]);
+
+      const scheduled = await service.findScheduled(2, UserRole.USER);
+
+      expect(scheduled).toEqual([
+        expect.objectContaining({ id: 1, awaitingApproval: true }),
+        expect.objectContaining({ id: 2, awaitingApproval: false }),
+      ]);
+    });
+  });
+
+  describe('slugs', () => {
+    const createPostDto = {
+      title: 'Hello World!',
+      content: 'Some content for the post',
+      authorId: 2,
+      categoryIds: [1],
+    };
+
+    beforeEach(() => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 2 });
+      mockPrismaService.category.findMany.mockResolvedValue([{ id: 1 }]);
+      mockPrismaService.post.findMany.mockResolvedValue([]);
+      mockPrismaService.postSlugHistory.findMany.mockResolvedValue([]);
+      mockPrismaService.post.create.mockResolvedValue({ id: 1 });
+    });
+
+    it('derives the slug from the title', async () => {
+      await service.create(createPostDto);
+
+      expect(mockPrismaService.post.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ slug: 'hello-world' }) as object,
+        }),
+      );
+    });
+
+    it('suffixes slugs taken by other posts or their previous slugs', async () => {
+      mockPrismaService.post.findMany.mockResolvedValue([
+        { slug: 'hello-world' },
+        { slug: 'hello-world-2' },
+      ]);
+      mockPrismaService.postSlugHistory.findMany.mockResolvedValue([
+        { slug: 'hello-world-3' },
+      ]);
+
+      await service.create(createPostDto);
+
+      expect(mockPrismaService.post.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ slug: 'hello-world-4' }) as object,
+        }),
+      );
+    });
+
+    it('keeps the old slug in history when the title changes', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ title: 'Hello', slug: 'hello' }),
+      );
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+
+      await service.update(1, { title: 'Hello again' }, 2, UserRole.USER);
+
+      expect(mockPrismaService.postSlugHistory.create).toHaveBeenCalledWith({
+        data: { slug: 'hello', postId: 1 },
+      });
+      expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ slug: 'hello-again' }) as object,
+        }),
+      );
+    });
+
+    it('finds a post by its current slug', async () => {
+      mockPrismaService.post.findUnique
+        .mockResolvedValueOnce({ id: 1 })
+        .mockResolvedValueOnce({
+          id: 1,
+          status: PostStatus.PUBLISHED,
+          content: 'Content',
+          contentHtml: '<p>Content</p>',
+          authors: [],
+        });
+
+      await expect(service.findBySlug('hello')).resolves.toEqual({
+        post: expect.objectContaining({ id: 1 }) as object,
+      });
+    });
+
+    it('redirects old slugs to the current one', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(null);
+      mockPrismaService.postSlugHistory.findUnique.mockResolvedValue({
+        slug: 'hello',
+        post: {
+          slug: 'hello-again',
+          status: PostStatus.PUBLISHED,
+          deletedAt: null,
+          authors: [],
+        },
+      });
+
+      await expect(service.findBySlug('hello')).resolves.toEqual({
+        movedTo: 'hello-again',
+      });
+    });
+
+    it('only redirects old slugs of unpublished posts for their authors', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(null);
+      mockPrismaService.postSlugHistory.findUnique.mockResolvedValue({
+        slug: 'hello',
+        post: {
+          slug: 'secret-title',
+          status: PostStatus.DRAFT,
+          deletedAt: null,
+          authors: [{ user: { id: 2 } }],
+        },
+      });
+
+      await expect(service.findBySlug('hello')).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(
+        service.findBySlug('hello', 5, UserRole.USER),
+      ).rejects.toThrow(NotFoundException);
+      await expect(
+        service.findBySlug('hello', 2, UserRole.USER),
+      ).resolves.toEqual({ movedTo: 'secret-title' });
+    });
+
+    it('does not redirect to trashed posts or unknown slugs', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(null);
+      mockPrismaService.postSlugHistory.findUnique.mockResolvedValueOnce({
+        slug: 'hello',
+        post: {
+          slug: 'hello-again',
+          status: PostStatus.PUBLISHED,
+          deletedAt: new Date(),
+          authors: [],
+        },
+      });
+      await expect(service.findBySlug('hello')).rejects.toThrow(
+        NotFoundException,
+      );
+
+      mockPrismaService.postSlugHistory.findUnique.mockResolvedValueOnce(null);
+      await expect(service.findBySlug('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('schedules', () => {
+    const publishAt = new Date('2030-01-01T00:00:00Z');
+    const unpublishAt = new Date('2030-02-01T00:00:00Z');
+
+    beforeEach(() => {
+      mockPrismaService.post.update.mockResolvedValue({ id: 1 });
+    });
+
+    it('schedules a draft for publishing and unpublishing', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(editablePost());
+
+      await service.update(1, { publishAt, unpublishAt }, 2, UserRole.USER);
+
+      expect(mockPrismaService.post.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ publishAt, unpublishAt }) as object,
+        }),
+      );
+    });
+
+    it('rejects publishing schedules on published posts', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ status: PostStatus.PUBLISHED }),
+      );
+
+      await expect(
+        service.update(1, { publishAt }, 2, UserRole.USER),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects unpublishing unpublished posts that are not scheduled', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(editablePost());
+
+      await expect(
+        service.update(1, { unpublishAt }, 2, UserRole.USER),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('rejects unpublishing before publishing', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue(
+        editablePost({ publishAt: unpublishAt }),
+      );
+
+      await expect(
+        service.update(1, { unpublishAt: publishAt }, 2, UserRole.USER),
+      ).rejects.toThrow('unpublishAt must be later than publishAt');
+      expect(mockPrismaService.post.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listing', () => {
+    beforeEach(() => {
+      mockPrismaService.post.findMany.mockResolvedValue([]);
+      mockPrismaService.post.count.mockResolvedValue(0);
+    });
+
+    it('lists the newest posts first by default', async () => {
+      await service.findAll({});
+
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ deletedAt: null }) as object,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      );
+    });
+
+    it('maps each sort key to an order, id keeps the order stable', async () => {
+      await service.findAll({ sort: ['-viewCount', 'title'] });
+
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ viewCount: 'desc' }, { title: 'asc' }, { id: 'desc' }],
+        }),
+      );
+    });
+
+    it('maps the filters to the query', async () => {
+      const createdFrom = new Date('2025-01-01');
+      const createdTo = new Date('2025-02-01');
+
+      await service.findAll({
+        published: 'true',
+        categoryId: 3,
+        authorId: 2,
+        createdFrom,
+        createdTo,
+        minViews: 10,
+      });
+
+      const where = {
+        deletedAt: null,
+        status: PostStatus.PUBLISHED,
+        categories: { some: { id: 3 } },
+        authors: { some: { userId: 2 } },
+        createdAt: { gte: createdFrom, lte: createdTo },
+        viewCount: { gte: 10 },
+      };
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where }),
+      );
+      expect(mockPrismaService.post.count).toHaveBeenCalledWith({ where });
+    });
+
+    it('only lists published posts to readers', async () => {
+      await service.findAll({});
+
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: PostStatus.PUBLISHED,
+          }) as object,
+        }),
+      );
+    });
+
+    it('lists posts of every status to admins', async () => {
+      await service.findAll({}, 1, UserRole.ADMIN);
+
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: undefined }) as object,
+        }),
+      );
+    });
+
+    it('maps published=false to every other status for admins', async () => {
+      await service.findAll({ published: 'false' }, 1, UserRole.ADMIN);
+
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: { not: PostStatus.PUBLISHED },
+            AND: undefined,
+          }) as object,
+        }),
+      );
+    });
+
+    it('limits published=false to the own posts of an author', async () => {
+      await service.findAll(
+        { published: 'false', authorId: 3 },
+        2,
+        UserRole.USER,
+      );
+
+      expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: { not: PostStatus.PUBLISHED },
+            authors: { some: { userId: 3 } },
+            AND: { authors: { some: { userId: 2 } } },
+          }) as object,
+        }),
+      );
+    });
+
+    it('does not list unpublished posts to anonymous readers', async () => {
+      await expect(service.findAll({ published: 'false' })).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrismaService.post.findMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a date range that ends before it starts', async () => {
+      await expect(
+        service.findAll({
+          createdFrom: new Date('2025-02-01'),
+          createdTo: new Date('2025-01-01'),
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.post.findMany).not.toHaveBeenCalled();
+    });
+  });
 });
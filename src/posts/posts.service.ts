@@ -9,14 +9,42 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreatePostDto } from './dto/create-post.dto';
 import { UpdatePostDto } from './dto/update-post.dto';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
-import { UserRole } from '@prisma/client';
+import { PostAuthorRole, PostStatus, Prisma, UserRole } from '@prisma/client';
+import { slugify } from '../common/utils/slug.util';
+import { TransitionPostDto } from './dto/transition-post.dto';
+import { FindPostsQueryDto, PostSortField } from './dto/find-posts-query.dto';
+import { paginate } from '../common/pagination/pagination';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { SearchMode, SearchPostsQueryDto } from './dto/search-posts-query.dto';
+import {
+  buildSnippet,
+  extractSearchTerms,
+  highlightTerms,
+} from '../common/utils/search-highlight.util';
+import { POST_STATUS_TRANSITIONS } from './post-status.transitions';
+import { PostReactionsService } from './post-reactions.service';
+import { TagsService } from '../tags/tags.service';
+import { PostContentFormat, renderPostContent } from './post-content';
+import { mediaSelect } from '../media/media.service';
+import { SitemapService } from '../sitemap/sitemap.service';
+import { postAuthorsSelect } from '../co-authors/co-authors.service';
+import { SeriesService } from '../series/series.service';
+import { PostTranslationsService } from './post-translations.service';
 
 @Injectable()
 export class PostsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private postReactionsService: PostReactionsService,
+    private tagsService: TagsService,
+    private sitemapService: SitemapService,
+    private seriesService: SeriesService,
+    private postTranslationsService: PostTranslationsService,
+  ) {}
   // CREATE POST
   async create(createPostDto: CreatePostDto) {
-    const { categoryIds, authorId, ...postData } = createPostDto;
+    const { categoryIds, authorId, tags, attachmentIds, ...postData } =
+      createPostDto;
 
     // Ensure at least one category is provided
     if (!categoryIds || categoryIds.length === 0) {
@@ -26,14 +54,22 @@ export class PostsService {
     // Validate authorId
     if (!authorId) throw new BadRequestException('Author ID is required');
 
+    this.validateSchedule(postData);
+
     // Verify that author exists
     const author = await this.prisma.user.findUnique({
       where: { id: authorId },
     });
     if (!author) throw new BadRequestException('Author does not exist');
 
+    await this.validateMedia(
+      [postData.coverImageId, ...(attachmentIds ?? [])],
+      authorId,
+      false,
+    );
+
     // Using transaction to ensure atomicity
-    return await this.prisma.$transaction(async (prisma) => {
+    const post = await this.prisma.$transaction(async (prisma) => {
       // Verify that all categories exist
       const categories = await prisma.category.findMany({
         where: {
@@ -47,13 +83,24 @@ export class PostsService {
         throw new NotFoundException('One or more categories not found');
       }
 
+      // Generate a unique, human-readable slug from the title
+      const slug = await this.generateUniqueSlug(prisma, postData.title);
+      const tagIds = await this.tagsService.resolveTags(prisma, tags ?? []);
+
       return await prisma.post.create({
         data: {
           ...postData,
+          ...renderPostContent(postData.content),
+          slug,
           authorId: authorId,
+          authors: { create: { userId: authorId, role: PostAuthorRole.OWNER } },
           categories: {
             connect: categoryIds.map((id) => ({ id })),
           },
+          tags: { connect: tagIds },
+          attachments: attachmentIds
+            ? { connect: attachmentIds.map((id) => ({ id })) }
+            : undefined,
         },
         include: {
           author: {
@@ -63,74 +110,309 @@ export class PostsService {
               email: true,
             },
           },
+          authors: postAuthorsSelect,
           categories: { select: { id: true, name: true } },
+          tags: { select: { id: true, name: true, slug: true } },
+          coverImage: { select: mediaSelect },
+          attachments: { select: mediaSelect },
         },
       });
     });
+    this.sitemapService.invalidate();
+    return post;
+  }
+
+  // GET ALL POSTS (supports filters, sorting, offset or cursor pagination, each post in the best requested locale)
+  async findAll(
+    query: FindPostsQueryDto,
+    currentUserId?: number,
+    userRole?: UserRole,
+    locales: string[] = [],
+  ) {
+    const { published, categoryId, authorId, createdFrom, createdTo } = query;
+    const isAdmin = userRole === UserRole.ADMIN;
+
+    if (createdFrom && createdTo && createdFrom > createdTo)
+      throw new BadRequestException('createdFrom must be before createdTo');
+    if (published === 'false' && !isAdmin && currentUserId === undefined)
+      throw new ForbiddenException('Sign in to list unpublished posts');
+
+    // Readers only get published posts, published=false lists the other statuses (admins every post, others their own)
+    const ownUnpublished = published === 'false' && !isAdmin;
+    const where: Prisma.PostWhereInput = {
+      deletedAt: null,
+      status:
+        published === 'false'
+          ? { not: PostStatus.PUBLISHED }
+          : published === 'true' || !isAdmin
+            ? PostStatus.PUBLISHED
+            : undefined,
+      categories: categoryId ? { some: { id: categoryId } } : undefined,
+      // Posts are listed for every author credited on them, owner or co-author
+      authors: authorId ? { some: { userId: authorId } } : undefined,
+      AND: ownUnpublished
+        ? { authors: { some: { userId: currentUserId } } }
+        : undefined,
+      createdAt:
+        createdFrom || createdTo
+          ? { gte: createdFrom, lte: createdTo }
+          : undefined,
+      viewCount:
+        query.minViews !== undefined ? { gte: query.minViews } : undefined,
+    };
+
+    // e.g. ["-viewCount", "title"] -> [{ viewCount: 'desc' }, { title: 'asc' }], id keeps the order stable
+    const sort = query.sort?.length ? query.sort : ['-createdAt'];
+    const orderBy: Prisma.PostOrderByWithRelationInput[] = sort.map((value) => {
+      const field = value.replace(/^-/, '') as PostSortField;
+      return { [field]: value.startsWith('-') ? 'desc' : 'asc' };
+    });
+    orderBy.push({ id: 'desc' });
+
+    const page = await paginate(
+      query,
+      (page) =>
+        this.prisma.post.findMany({
+          ...page,
+          where,
+          // The rendered body is only returned for single posts
+          omit: { contentHtml: true },
+          include: {
+            author: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+            authors: postAuthorsSelect,
+            categories: { select: { id: true, name: true } },
+            tags: { select: { id: true, name: true, slug: true } },
+            coverImage: { select: mediaSelect },
+          },
+          orderBy,
+        }),
+      () => this.prisma.post.count({ where }),
+    );
+
+    const localized = await this.postTranslationsService.localize(
+      page.data,
+      locales,
+    );
+    return {
+      ...page,
+      data: await this.postReactionsService.attachTo(localized, currentUserId),
+    };
   }
 
-  // GET ALL POSTS (supports optional published filter and pagination)
-  async findAll(published?: boolean, skip?: number, take?: number) {
-    const offset = skip ?? 0;
-    const limit = Math.min(take ?? 10, 100); // cap page size to 100
+  // SEARCH PUBLISHED POSTS BY TITLE OR CONTENT (full-text, ordered by relevance)
+  async searchPosts(searchQuery: SearchPostsQueryDto) {
+    const { q, mode, skip, take, categoryId, authorId, from, to } = searchQuery;
+
+    const match =
+      mode === SearchMode.BOOLEAN
+        ? Prisma.sql`MATCH(p.title, p.content) AGAINST (${q} IN BOOLEAN MODE)`
+        : Prisma.sql`MATCH(p.title, p.content) AGAINST (${q} IN NATURAL LANGUAGE MODE)`;
+
+    const conditions = [
+      match,
+      Prisma.sql`p.status = 'published'`,
+      Prisma.sql`p.deletedAt IS NULL`,
+    ];
+    if (categoryId)
+      conditions.push(
+        Prisma.sql`EXISTS (SELECT 1 FROM _CategoryToPost cp WHERE cp.B = p.id AND cp.A = ${categoryId})`,
+      );
+    if (authorId)
+      conditions.push(
+        Prisma.sql`EXISTS (SELECT 1 FROM PostAuthor pa WHERE pa.postId = p.id AND pa.userId = ${authorId})`,
+      );
+    if (from) conditions.push(Prisma.sql`p.createdAt >= ${from}`);
+    if (to) conditions.push(Prisma.sql`p.createdAt <= ${to}`);
+    const where = Prisma.join(conditions, ' AND ');
+
+    let matches: { id: number; relevance: number }[];
+    let countResult: { total: bigint }[];
+    try {
+      [matches, countResult] = await Promise.all([
+        this.prisma.$queryRaw<{ id: number; relevance: number }[]>`
+          SELECT p.id, ${match} AS relevance
+          FROM Post p
+          WHERE ${where}
+          ORDER BY relevance DESC, p.id DESC
+          LIMIT ${take} OFFSET ${skip}`,
+        this.prisma.$queryRaw<{ total: bigint }[]>`
+          SELECT COUNT(*) AS total FROM Post p WHERE ${where}`,
+      ]);
+    } catch (error: any) {
+      // MySQL rejects malformed boolean mode expressions
+      if (error instanceof PrismaClientKnownRequestError)
+        throw new BadRequestException('Invalid search query');
+      throw error;
+    }
 
-    return this.prisma.post.findMany({
-      where: published !== undefined ? { published } : undefined,
-      skip: offset,
-      take: limit,
+    const posts = await this.prisma.post.findMany({
+      where: { id: { in: matches.map((match) => match.id) } },
       include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
+        author: { select: { id: true, name: true } },
         categories: { select: { id: true, name: true } },
+        tags: { select: { id: true, name: true, slug: true } },
       },
-      orderBy: {
-        createdAt: 'desc',
+    });
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    const terms = extractSearchTerms(q);
+
+    // Keep the relevance order of the full-text query
+    const data = matches.flatMap(({ id, relevance }) => {
+      const post = postsById.get(id);
+      if (!post) return [];
+      return {
+        ...post,
+        relevance: Number(relevance),
+        highlights: {
+          title: highlightTerms(post.title, terms),
+          content: buildSnippet(post.content, terms),
+        },
+      };
+    });
+
+    return {
+      data,
+      meta: { total: Number(countResult[0]?.total ?? 0), skip, take },
+    };
+  }
+
+  // GET A SINGLE POST IN THE BEST REQUESTED LOCALE (unpublished posts only for their authors and admins)
+  async findOne(
+    id: number,
+    currentUserId?: number,
+    userRole?: UserRole,
+    format: PostContentFormat = PostContentFormat.HTML,
+    locales: string[] = [],
+  ) {
+    const original = await this.prisma.post.findUnique({
+      where: { id, deletedAt: null },
+      include: {
+        author: { select: { id: true, name: true, email: true } },
+        authors: postAuthorsSelect,
+        categories: { select: { id: true, name: true } },
+        tags: { select: { id: true, name: true, slug: true } },
+        coverImage: { select: mediaSelect },
+        attachments: { select: mediaSelect },
       },
     });
+
+    if (!original) throw new NotFoundException(`Post with ID ${id} not found`);
+
+    // Drafts and posts in review don't exist for readers, not even as a 403
+    if (!this.isVisibleTo(original, currentUserId, userRole))
+      throw new NotFoundException(`Post with ID ${id} not found`);
+
+    const [post] = await this.postTranslationsService.localize(
+      [original],
+      locales,
+    );
+
+    // content holds the requested representation, posts saved before rendering existed are rendered on the fly
+    const { contentHtml, ...postData } = post;
+    const content =
+      format === PostContentFormat.HTML
+        ? (contentHtml ?? renderPostContent(post.content).contentHtml)
+        : post.content;
+
+    // Posts in a series link to the previous and next part
+    const series = await this.seriesService.getNavigation(post.id);
+
+    const [withReactions] = await this.postReactionsService.attachTo(
+      [{ ...postData, content, format, series }],
+      currentUserId,
+    );
+    return withReactions;
   }
 
-  // SEARCH POSTS BY TITLE OR CONTENT
-  async searchPosts(query: string) {
-    return this.prisma.post.findMany({
+  // GET SCHEDULED POSTS (own and co-authored posts, admins see every author's queue)
+  // A post scheduled for publishing only goes live once approved, until then it is flagged awaitingApproval
+  async findScheduled(currentUserId: number, userRole: UserRole) {
+    const isAdmin = userRole === UserRole.ADMIN;
+
+    const posts = await this.prisma.post.findMany({
       where: {
-        OR: [{ title: { contains: query } }, { content: { contains: query } }],
+        authors: isAdmin ? undefined : { some: { userId: currentUserId } },
+        deletedAt: null,
+        OR: [{ publishAt: { not: null } }, { unpublishAt: { not: null } }],
       },
-      include: {
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        status: true,
+        publishAt: true,
+        unpublishAt: true,
         author: { select: { id: true, name: true } },
-        categories: { select: { id: true, name: true } },
       },
     });
+
+    // Order by whichever scheduled change happens next
+    const nextChange = (post: (typeof posts)[number]) =>
+      Math.min(
+        post.publishAt?.getTime() ?? Infinity,
+        post.unpublishAt?.getTime() ?? Infinity,
+      );
+    return posts
+      .sort((a, b) => nextChange(a) - nextChange(b))
+      .map((post) => ({
+        ...post,
+        awaitingApproval:
+          post.publishAt !== null && post.status !== PostStatus.APPROVED,
+      }));
   }
 
-  // GET A SINGLE POST (increments viewCount atomically and returns the updated post)
-  async findOne(id: number) {
-    try {
-      const post = await this.prisma.post.update({
-        where: { id },
-        data: {
-          viewCount: { increment: 1 },
-        },
-        include: {
-          author: { select: { id: true, name: true, email: true } },
-          categories: { select: { id: true, name: true } },
+  // GET A SINGLE POST BY SLUG (old slugs resolve to the post's current slug)
+  async findBySlug(
+    slug: string,
+    currentUserId?: number,
+    userRole?: UserRole,
+    format?: PostContentFormat,
+    locales?: string[],
+  ) {
+    const post = await this.prisma.post.findUnique({
+      where: { slug, deletedAt: null },
+      select: { id: true },
+    });
+    if (post)
+      return {
+        post: await this.findOne(
+          post.id,
+          currentUserId,
+          userRole,
+          format,
+          locales,
+        ),
+      };
+
+    // Not a current slug, check if the post used to live at this slug
+    const previousSlug = await this.prisma.postSlugHistory.findUnique({
+      where: { slug },
+      include: {
+        post: {
+          select: {
+            slug: true,
+            status: true,
+            deletedAt: true,
+            authors: { select: { user: { select: { id: true } } } },
+          },
         },
-      });
-
-      return post;
-    } catch (error: any) {
-      if (
-        error instanceof PrismaClientKnownRequestError &&
-        error.code === 'P2025'
-      ) {
-        throw new NotFoundException(`Post with ID ${id} not found`);
-      }
-      throw error;
-    }
+      },
+    });
+    // The redirect would give away the slug of a post readers may not see
+    if (
+      !previousSlug ||
+      previousSlug.post.deletedAt ||
+      !this.isVisibleTo(previousSlug.post, currentUserId, userRole)
+    )
+      throw new NotFoundException(`Post with slug "${slug}" not found`);
+
+    return { movedTo: previousSlug.post.slug };
   }
 
   // UPDATE A POST
@@ -140,37 +422,41 @@ export class PostsService {
     currentUserId: number,
     userRole: UserRole,
   ) {
-    const { categoryIds, authorId, ...postData } = updatePostDto;
+    const { categoryIds, authorId, tags, attachmentIds, ...postData } =
+      updatePostDto;
     try {
-      // First get the existing post
-      const existingPost = await this.prisma.post.findUnique({
-        where: { id },
-        include: {
-          categories: { select: { id: true } },
-        },
-      });
-
-      if (!existingPost)
-        throw new NotFoundException(`Post with ID ${id} not found`);
-
-      // Authorization check if its admin or post author
+      // First get the existing post, this also checks the user may edit it
+      const existingPost = await this.getEditablePost(
+        id,
+        currentUserId,
+        userRole,
+      );
       const isAdmin = userRole === UserRole.ADMIN;
-      const isAuthor = existingPost.authorId === currentUserId;
-
-      if (!isAdmin && !isAuthor) {
-        throw new ForbiddenException(
-          'You do not have permission to edit this post',
-        );
-      }
 
       // Prepare the actual data to update
       const dataToUpdate: {
         title?: string;
         content?: string;
-        published?: boolean;
+        publishAt?: Date | null;
+        unpublishAt?: Date | null;
+        commentsClosed?: boolean;
+        coverImageId?: number | null;
         authorId?: number;
+        status?: PostStatus;
       } = { ...postData };
 
+      this.validateSchedule({
+        status: existingPost.status,
+        publishAt:
+          dataToUpdate.publishAt !== undefined
+            ? dataToUpdate.publishAt
+            : existingPost.publishAt,
+        unpublishAt:
+          dataToUpdate.unpublishAt !== undefined
+            ? dataToUpdate.unpublishAt
+            : existingPost.unpublishAt,
+      });
+
       // Handle authorId changes (admin only)
       if (authorId !== undefined && authorId !== existingPost.authorId) {
         if (!isAdmin)
@@ -190,12 +476,20 @@ export class PostsService {
 
       // Check if there are any actual changes in the post data
       const hasDataChanges = Object.keys(postData).some((key) => {
-        const newValue = postData[key];
-        const oldValue = existingPost[key];
+        const newValue: unknown = postData[key as keyof typeof postData];
+        const oldValue: unknown =
+          existingPost[key as keyof typeof existingPost];
         // Handle the types
         if (typeof newValue === 'string' && typeof oldValue === 'string') {
           return newValue.trim() !== oldValue.trim();
         }
+        if (newValue instanceof Date || oldValue instanceof Date) {
+          return (
+            (newValue instanceof Date ? newValue.getTime() : newValue) !==
+            (oldValue instanceof Date ? oldValue.getTime() : oldValue)
+          );
+        }
+        return newValue !== oldValue;
       });
 
       // Check if there are changes in categories
@@ -213,15 +507,51 @@ export class PostsService {
           );
       }
 
+      // Check if there are changes in tags, compared by slug since names are normalized on save
+      let hasTagChanges = false;
+      if (tags !== undefined) {
+        const existingTagSlugs = existingPost.tags.map((t) => t.slug).sort();
+        const newTagSlugs = [
+          ...new Set(tags.map((name) => this.tagsService.toSlug(name))),
+        ].sort();
+
+        hasTagChanges =
+          newTagSlugs.length !== existingTagSlugs.length ||
+          !newTagSlugs.every((slug, index) => slug === existingTagSlugs[index]);
+      }
+
+      // Check if there are changes in attachments, their order is not significant
+      let hasAttachmentChanges = false;
+      if (attachmentIds !== undefined) {
+        const existingAttachmentIds = existingPost.attachments
+          .map((a) => a.id)
+          .sort();
+        const newAttachmentIds = [...attachmentIds].sort();
+
+        hasAttachmentChanges =
+          newAttachmentIds.length !== existingAttachmentIds.length ||
+          !newAttachmentIds.every(
+            (id, index) => id === existingAttachmentIds[index],
+          );
+      }
+
       // Check if ANY field was provided in the DTO
       const hasAnyFieldProvided =
-        Object.keys(postData).length > 0 || categoryIds !== undefined;
+        Object.keys(postData).length > 0 ||
+        categoryIds !== undefined ||
+        tags !== undefined ||
+        attachmentIds !== undefined;
 
       if (!hasAnyFieldProvided) {
         throw new BadRequestException('No update data provided');
       }
 
-      if (!hasDataChanges && !hasCategoryChanges) {
+      if (
+        !hasDataChanges &&
+        !hasCategoryChanges &&
+        !hasTagChanges &&
+        !hasAttachmentChanges
+      ) {
         throw new ConflictException('No changes detected in the update data');
       }
 
@@ -244,21 +574,128 @@ export class PostsService {
         }
       }
 
-      return await this.prisma.post.update({
-        where: { id },
-        data: {
-          ...dataToUpdate,
-          categories: categoryIds
-            ? {
-                set: categoryIds.map((id) => ({ id })),
-              }
-            : undefined,
-        },
-        include: {
-          author: { select: { id: true, name: true, email: true } },
-          categories: { select: { id: true, name: true } },
-        },
+      // Media can only be used by the user who uploaded it, admins may use any media
+      await this.validateMedia(
+        [
+          postData.coverImageId,
+          ...(hasAttachmentChanges ? attachmentIds! : []),
+        ],
+        currentUserId,
+        isAdmin,
+      );
+
+      const hasTextChanges =
+        (postData.title !== undefined &&
+          postData.title !== existingPost.title) ||
+        (postData.content !== undefined &&
+          postData.content !== existingPost.content);
+
+      // Approval covers the text that was reviewed, an author changing it has to submit it again
+      const needsReview =
+        !isAdmin &&
+        hasTextChanges &&
+        existingPost.status === PostStatus.APPROVED;
+      if (needsReview) dataToUpdate.status = PostStatus.IN_REVIEW;
+
+      const post = await this.prisma.$transaction(async (prisma) => {
+        if (needsReview)
+          await prisma.postStatusTransition.create({
+            data: {
+              postId: id,
+              fromStatus: PostStatus.APPROVED,
+              toStatus: PostStatus.IN_REVIEW,
+              actorId: currentUserId,
+              reason: 'Content changed after approval',
+            },
+          });
+
+        // Keep a revision of the previous version whenever the content changes
+        if (hasCategoryChanges || hasTextChanges) {
+          await prisma.postRevision.create({
+            data: {
+              postId: id,
+              editorId: currentUserId,
+              title: existingPost.title,
+              content: existingPost.content,
+              categoryIds: existingPost.categories.map((c) => c.id),
+            },
+          });
+        }
+
+        // A new owner takes over the post, the previous owner stays on as a contributor
+        if (dataToUpdate.authorId !== undefined) {
+          await prisma.postAuthor.updateMany({
+            where: { postId: id, userId: existingPost.authorId },
+            data: { role: PostAuthorRole.CONTRIBUTOR },
+          });
+          await prisma.postAuthor.upsert({
+            where: {
+              postId_userId: { postId: id, userId: dataToUpdate.authorId },
+            },
+            create: {
+              postId: id,
+              userId: dataToUpdate.authorId,
+              role: PostAuthorRole.OWNER,
+            },
+            update: { role: PostAuthorRole.OWNER },
+          });
+        }
+
+        // A new title gets a new slug, the old one is kept in history so existing links still resolve
+        let slug: string | undefined;
+        if (
+          dataToUpdate.title !== undefined &&
+          dataToUpdate.title !== existingPost.title
+        ) {
+          slug = await this.generateUniqueSlug(prisma, dataToUpdate.title, id);
+          if (slug !== existingPost.slug) {
+            await prisma.postSlugHistory.deleteMany({
+              where: { slug, postId: id },
+            });
+            await prisma.postSlugHistory.create({
+              data: { slug: existingPost.slug, postId: id },
+            });
+          }
+        }
+
+        const tagIds = hasTagChanges
+          ? await this.tagsService.resolveTags(prisma, tags!)
+          : undefined;
+
+        const renderedContent =
+          dataToUpdate.content !== undefined &&
+          dataToUpdate.content !== existingPost.content
+            ? renderPostContent(dataToUpdate.content)
+            : undefined;
+
+        return await prisma.post.update({
+          where: { id },
+          data: {
+            ...dataToUpdate,
+            ...renderedContent,
+            slug,
+            tags: tagIds ? { set: tagIds } : undefined,
+            attachments: hasAttachmentChanges
+              ? { set: attachmentIds!.map((id) => ({ id })) }
+              : undefined,
+            categories: categoryIds
+              ? {
+                  set: categoryIds.map((id) => ({ id })),
+                }
+              : undefined,
+          },
+          include: {
+            author: { select: { id: true, name: true, email: true } },
+            authors: postAuthorsSelect,
+            categories: { select: { id: true, name: true } },
+            tags: { select: { id: true, name: true, slug: true } },
+            coverImage: { select: mediaSelect },
+            attachments: { select: mediaSelect },
+          },
+        });
       });
+      this.sitemapService.invalidate();
+      return post;
     } catch (error: any) {
       if (
         error instanceof PrismaClientKnownRequestError &&
@@ -270,11 +707,117 @@ export class PostsService {
     }
   }
 
-  // DELETE A POST
+  // GET A POST THE CURRENT USER IS ALLOWED TO EDIT (admin, post owner or co-author)
+  async getEditablePost(id: number, currentUserId: number, userRole: UserRole) {
+    const post = await this.prisma.post.findUnique({
+      where: { id, deletedAt: null },
+      include: {
+        categories: { select: { id: true } },
+        tags: { select: { slug: true } },
+        attachments: { select: { id: true } },
+        authors: { where: { userId: currentUserId }, select: { id: true } },
+      },
+    });
+
+    if (!post) throw new NotFoundException(`Post with ID ${id} not found`);
+
+    // Authorization check if its admin or one of the post's authors
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isAuthor = post.authorId === currentUserId || post.authors.length > 0;
+
+    if (!isAdmin && !isAuthor) {
+      throw new ForbiddenException(
+        'You do not have permission to edit this post',
+      );
+    }
+
+    return post;
+  }
+
+  // MOVE A POST THROUGH THE EDITORIAL WORKFLOW
+  async transition(
+    id: number,
+    transitionPostDto: TransitionPostDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    const { status, reason } = transitionPostDto;
+    const post = await this.getEditablePost(id, currentUserId, userRole);
+
+    if (post.status === status)
+      throw new ConflictException(`Post is already ${status}`);
+
+    const allowedRoles = POST_STATUS_TRANSITIONS[post.status][status];
+    if (!allowedRoles)
+      throw new BadRequestException(
+        `Cannot move a post from ${post.status} to ${status}`,
+      );
+    if (!allowedRoles.includes(userRole))
+      throw new ForbiddenException(
+        `Access denied. Required role(s): ${allowedRoles.join(', ')}`,
+      );
+
+    // An admin sending a post back from review is a rejection, the author needs to know why
+    const isRejection =
+      post.status === PostStatus.IN_REVIEW &&
+      status === PostStatus.DRAFT &&
+      userRole === UserRole.ADMIN;
+    if (isRejection && !reason)
+      throw new BadRequestException('A reason is required to reject a post');
+
+    const updatedPost = await this.prisma.$transaction(async (prisma) => {
+      await prisma.postStatusTransition.create({
+        data: {
+          postId: id,
+          fromStatus: post.status,
+          toStatus: status,
+          actorId: currentUserId,
+          reason,
+        },
+      });
+
+      return await prisma.post.update({
+        where: { id },
+        data: {
+          status,
+          // Publishing or unpublishing by hand replaces a pending schedule for it
+          publishAt: status === PostStatus.PUBLISHED ? null : undefined,
+          unpublishAt: post.status === PostStatus.PUBLISHED ? null : undefined,
+        },
+        include: {
+          author: { select: { id: true, name: true, email: true } },
+          categories: { select: { id: true, name: true } },
+          tags: { select: { id: true, name: true, slug: true } },
+        },
+      });
+    });
+    this.sitemapService.invalidate();
+    return updatedPost;
+  }
+
+  // GET THE WORKFLOW HISTORY OF A POST
+  async findTransitions(id: number, currentUserId: number, userRole: UserRole) {
+    await this.getEditablePost(id, currentUserId, userRole);
+
+    return this.prisma.postStatusTransition.findMany({
+      where: { postId: id },
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        reason: true,
+        createdAt: true,
+        actor: { select: { id: true, name: true } },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  // MOVE A POST TO THE TRASH (it can be restored until it is purged)
   async remove(id: number, currentUserId: number, userRole: UserRole) {
     // First get the existing post
     const existingPost = await this.prisma.post.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         categories: { select: { id: true } },
       },
@@ -291,13 +834,17 @@ export class PostsService {
         throw new ForbiddenException(
           'You do not have permission to delete this post',
         );
-      return await this.prisma.post.delete({
-        where: { id },
+      const post = await this.prisma.post.update({
+        where: { id, deletedAt: null },
+        data: { deletedAt: new Date() },
         include: {
           author: { select: { id: true, name: true, email: true } },
           categories: { select: { id: true, name: true } },
+          tags: { select: { id: true, name: true, slug: true } },
         },
       });
+      this.sitemapService.invalidate();
+      return post;
     } catch (error: any) {
       if (
         error instanceof PrismaClientKnownRequestError &&
@@ -308,4 +855,156 @@ export class PostsService {
       throw error;
     }
   }
+
+  // GET TRASHED POSTS (admins see every author's trash, most recently deleted first)
+  async findTrash(
+    currentUserId: number,
+    userRole: UserRole,
+    query: PaginationQueryDto,
+  ) {
+    const where: Prisma.PostWhereInput = {
+      deletedAt: { not: null },
+      authorId: userRole === UserRole.ADMIN ? undefined : currentUserId,
+    };
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.post.findMany({
+          ...page,
+          where,
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            status: true,
+            createdAt: true,
+            updatedAt: true,
+            deletedAt: true,
+            author: { select: { id: true, name: true } },
+            categories: { select: { id: true, name: true } },
+          },
+          orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        }),
+      () => this.prisma.post.count({ where }),
+    );
+  }
+
+  // RESTORE A POST FROM THE TRASH (admin or post author)
+  async restore(id: number, currentUserId: number, userRole: UserRole) {
+    const post = await this.prisma.post.findUnique({
+      where: { id, deletedAt: { not: null } },
+      select: { authorId: true },
+    });
+    if (!post)
+      throw new NotFoundException(`Post with ID ${id} is not in the trash`);
+
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isAuthor = post.authorId === currentUserId;
+    if (!isAdmin && !isAuthor)
+      throw new ForbiddenException(
+        'You do not have permission to restore this post',
+      );
+
+    const restored = await this.prisma.post.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: {
+        author: { select: { id: true, name: true, email: true } },
+        categories: { select: { id: true, name: true } },
+        tags: { select: { id: true, name: true, slug: true } },
+      },
+    });
+    this.sitemapService.invalidate();
+    return restored;
+  }
+
+  // Check that the media exist and belong to the given user (unless an admin is acting)
+  // Published posts are visible to everyone, other statuses only to admins and the post's authors
+  private isVisibleTo(
+    post: { status: PostStatus; authors: { user: { id: number } }[] },
+    currentUserId?: number,
+    userRole?: UserRole,
+  ) {
+    return (
+      post.status === PostStatus.PUBLISHED ||
+      userRole === UserRole.ADMIN ||
+      post.authors.some(({ user }) => user.id === currentUserId)
+    );
+  }
+
+  private async validateMedia(
+    mediaIds: (number | null | undefined)[],
+    ownerId: number,
+    isAdmin: boolean,
+  ) {
+    const ids = [...new Set(mediaIds.filter((id): id is number => !!id))];
+    if (ids.length === 0) return;
+
+    const media = await this.prisma.media.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, ownerId: true },
+    });
+    if (media.length !== ids.length)
+      throw new NotFoundException('One or more media items not found');
+    if (!isAdmin && media.some((item) => item.ownerId !== ownerId))
+      throw new ForbiddenException('You can only use media you uploaded');
+  }
+
+  // Make sure a publishing schedule makes sense for the post it is set on
+  private validateSchedule(schedule: {
+    status?: PostStatus;
+    publishAt?: Date | null;
+    unpublishAt?: Date | null;
+  }) {
+    const { status, publishAt, unpublishAt } = schedule;
+    const published = status === PostStatus.PUBLISHED;
+
+    if (publishAt && published)
+      throw new BadRequestException(
+        'A published post cannot be scheduled for publishing',
+      );
+    if (unpublishAt && !published && !publishAt)
+      throw new BadRequestException(
+        'Only published or scheduled posts can be scheduled for unpublishing',
+      );
+    if (publishAt && unpublishAt && unpublishAt <= publishAt)
+      throw new BadRequestException('unpublishAt must be later than publishAt');
+  }
+
+  // Generate a slug from the title that is not used by another post, currently or in its slug history
+  private async generateUniqueSlug(
+    prisma: Prisma.TransactionClient,
+    title: string,
+    postId?: number,
+  ) {
+    const baseSlug = slugify(title) || 'post';
+
+    const [posts, previousSlugs] = await Promise.all([
+      prisma.post.findMany({
+        where: {
+          slug: { startsWith: baseSlug },
+          id: postId ? { not: postId } : undefined,
+        },
+        select: { slug: true },
+      }),
+      prisma.postSlugHistory.findMany({
+        where: {
+          slug: { startsWith: baseSlug },
+          postId: postId ? { not: postId } : undefined,
+        },
+        select: { slug: true },
+      }),
+    ]);
+    const takenSlugs = new Set(
+      [...posts, ...previousSlugs].map((entry) => entry.slug),
+    );
+
+    // Append a counter until the slug is free, e.g. my-post, my-post-2, my-post-3
+    let slug = baseSlug;
+    for (let suffix = 2; takenSlugs.has(slug); suffix++) {
+      slug = `${baseSlug}-${suffix}`;
+    }
+    return slug;
+  }
 }
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { RelatedPostsService } from './related-posts.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RelatedPostsService', () => {
+  let service: RelatedPostsService;
+
+  const mockPrismaService = {
+    post: { findUnique: jest.fn(), findMany: jest.fn(), count: jest.fn() },
+  };
+
+  const post = {
+    id: 1,
+    title: 'Testing NestJS services',
+    categories: [{ id: 1 }],
+    tags: [{ id: 7 }],
+  };
+
+  const candidate = (
+    id: number,
+    overrides: Partial<{
+      title: string;
+      categories: { id: number; name: string }[];
+      tags: { id: number; name: string; slug: string }[];
+      viewCount: number;
+    }>,
+  ) => ({
+    id,
+    title: `Post ${id}`,
+    slug: `post-${id}`,
+    excerpt: null,
+    readingTime: 1,
+    viewCount: 0,
+    createdAt: new Date(),
+    author: { id: 1, name: 'Jane' },
+    categories: [],
+    tags: [],
+    coverImage: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RelatedPostsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RelatedPostsService>(RelatedPostsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('ranks posts sharing more categories, tags and title words first', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue(post);
+    mockPrismaService.post.findMany.mockResolvedValue([
+      candidate(2, { viewCount: 500 }),
+      candidate(3, {
+        categories: [{ id: 1, name: 'Backend' }],
+        tags: [{ id: 7, name: 'nestjs', slug: 'nestjs' }],
+      }),
+      candidate(4, { title: 'Mocking services in NestJS' }),
+    ]);
+
+    const related = await service.findRelated(1, 5);
+
+    expect(related.map(({ id }) => id)).toEqual([3, 4, 2]);
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          id: { not: 1 },
+          status: 'PUBLISHED',
+          deletedAt: null,
+        }) as object,
+      }),
+    );
+  });
+
+  it('caches results until the post categories change', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue(post);
+    mockPrismaService.post.findMany.mockResolvedValue([]);
+
+    await service.findRelated(1, 5);
+    await service.findRelated(1, 3);
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledTimes(1);
+
+    mockPrismaService.post.findUnique.mockResolvedValue({
+      ...post,
+      categories: [{ id: 1 }, { id: 2 }],
+    });
+    await service.findRelated(1, 5);
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('recomputes cached results once a related post is no longer published', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue(post);
+    mockPrismaService.post.findMany.mockResolvedValueOnce([
+      candidate(2, {}),
+      candidate(3, {}),
+    ]);
+    mockPrismaService.post.count.mockResolvedValueOnce(2);
+
+    await service.findRelated(1, 5);
+    await service.findRelated(1, 5);
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.post.count).toHaveBeenCalledWith({
+      where: { id: { in: [3, 2] }, status: 'PUBLISHED', deletedAt: null },
+    });
+
+    // Post 3 was trashed in the meantime
+    mockPrismaService.post.count.mockResolvedValueOnce(1);
+    mockPrismaService.post.findMany.mockResolvedValueOnce([candidate(2, {})]);
+    const related = await service.findRelated(1, 5);
+
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledTimes(2);
+    expect(related.map(({ id }) => id)).toEqual([2]);
+  });
+
+  it('throws for posts that are not published', async () => {
+    mockPrismaService.post.findUnique.mockResolvedValue(null);
+
+    await expect(service.findRelated(1, 5)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,201 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { mediaSelect } from '../media/media.service';
+
+// Related posts are computed for the largest allowed limit and cut down per request
+export const RELATED_POSTS_MAX = 20;
+// Most recent matching posts considered for scoring
+const CANDIDATE_LIMIT = 200;
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const CACHE_MAX_ENTRIES = 1000;
+
+const WEIGHTS = {
+  category: 3, // per shared category
+  tag: 2, // per shared tag
+  titleWord: 1, // per shared significant title word
+  recency: 1, // 1 for a post published today, halved after 30 days
+  popularity: 1, // 1 for the most viewed candidate
+};
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// Words too common to say anything about what a post is about
+const STOP_WORDS = new Set([
+  'about',
+  'after',
+  'before',
+  'from',
+  'have',
+  'into',
+  'that',
+  'their',
+  'there',
+  'this',
+  'what',
+  'when',
+  'where',
+  'which',
+  'with',
+  'your',
+]);
+
+const relatedPostSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  readingTime: true,
+  viewCount: true,
+  createdAt: true,
+  author: { select: { id: true, name: true } },
+  categories: { select: { id: true, name: true } },
+  tags: { select: { id: true, name: true, slug: true } },
+  coverImage: { select: mediaSelect },
+} satisfies Prisma.PostSelect;
+
+type RelatedPost = Prisma.PostGetPayload<{
+  select: typeof relatedPostSelect;
+}> & { score: number };
+
+interface CacheEntry {
+  categoryKey: string; // the post's categories when the entry was computed
+  expiresAt: number;
+  posts: RelatedPost[];
+}
+
+@Injectable()
+export class RelatedPostsService {
+  private readonly cache = new Map<number, CacheEntry>();
+
+  constructor(private prisma: PrismaService) {}
+
+  // GET POSTS RELATED TO A POST (best match first)
+  async findRelated(postId: number, limit: number) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, status: PostStatus.PUBLISHED, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        categories: { select: { id: true } },
+        tags: { select: { id: true } },
+      },
+    });
+    if (!post) throw new NotFoundException(`Post with ID ${postId} not found`);
+
+    // Cached results stay valid until the post's categories change
+    const categoryKey = post.categories
+      .map(({ id }) => id)
+      .sort((a, b) => a - b)
+      .join(',');
+    const cached = this.cache.get(postId);
+    if (
+      cached &&
+      cached.categoryKey === categoryKey &&
+      cached.expiresAt > Date.now() &&
+      (await this.stillVisible(cached.posts))
+    )
+      return cached.posts.slice(0, limit);
+
+    const posts = await this.score(post);
+    this.remember(postId, { categoryKey, posts });
+    return posts.slice(0, limit);
+  }
+
+  private async score(post: {
+    id: number;
+    title: string;
+    categories: { id: number }[];
+    tags: { id: number }[];
+  }): Promise<RelatedPost[]> {
+    const categoryIds = post.categories.map(({ id }) => id);
+    const tagIds = post.tags.map(({ id }) => id);
+    const titleWords = significantWords(post.title);
+
+    const candidates = await this.prisma.post.findMany({
+      where: {
+        id: { not: post.id },
+        status: PostStatus.PUBLISHED,
+        deletedAt: null,
+        OR: [
+          { categories: { some: { id: { in: categoryIds } } } },
+          { tags: { some: { id: { in: tagIds } } } },
+          // Longest words first, they are the most telling
+          ...[...titleWords]
+            .sort((a, b) => b.length - a.length)
+            .slice(0, 5)
+            .map((word) => ({ title: { contains: word } })),
+        ],
+      },
+      select: relatedPostSelect,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: CANDIDATE_LIMIT,
+    });
+
+    const now = Date.now();
+    const maxViews = Math.max(0, ...candidates.map((c) => c.viewCount));
+
+    return candidates
+      .map((candidate) => {
+        const sharedCategories = candidate.categories.filter(({ id }) =>
+          categoryIds.includes(id),
+        ).length;
+        const sharedTags = candidate.tags.filter(({ id }) =>
+          tagIds.includes(id),
+        ).length;
+        const candidateWords = significantWords(candidate.title);
+        const sharedWords = [...titleWords].filter((word) =>
+          candidateWords.has(word),
+        ).length;
+
+        const ageDays = (now - candidate.createdAt.getTime()) / 86_400_000;
+        const recency = 1 / (1 + Math.max(0, ageDays) / RECENCY_HALF_LIFE_DAYS);
+        // Logarithmic so a handful of very popular posts don't drown out everything else
+        const popularity = maxViews
+          ? Math.log1p(candidate.viewCount) / Math.log1p(maxViews)
+          : 0;
+
+        const score =
+          sharedCategories * WEIGHTS.category +
+          sharedTags * WEIGHTS.tag +
+          sharedWords * WEIGHTS.titleWord +
+          recency * WEIGHTS.recency +
+          popularity * WEIGHTS.popularity;
+        return { ...candidate, score: Math.round(score * 1000) / 1000 };
+      })
+      .sort((a, b) => b.score - a.score || b.id - a.id)
+      .slice(0, RELATED_POSTS_MAX);
+  }
+
+  // A cached related post that was unpublished, trashed or deleted since makes the entry stale
+  private async stillVisible(posts: RelatedPost[]) {
+    if (posts.length === 0) return true;
+    const visible = await this.prisma.post.count({
+      where: {
+        id: { in: posts.map(({ id }) => id) },
+        status: PostStatus.PUBLISHED,
+        deletedAt: null,
+      },
+    });
+    return visible === posts.length;
+  }
+
+  // Bounded cache, the oldest entry is dropped once it is full
+  private remember(postId: number, entry: Omit<CacheEntry, 'expiresAt'>) {
+    this.cache.delete(postId);
+    if (this.cache.size >= CACHE_MAX_ENTRIES) {
+      const oldest = this.cache.keys().next();
+      if (!oldest.done) this.cache.delete(oldest.value);
+    }
+    this.cache.set(postId, { ...entry, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+}
+
+// Lowercased title words that carry meaning, e.g. "Getting Started with NestJS" -> {getting, started, nestjs}
+function significantWords(title: string) {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length >= 4 && !STOP_WORDS.has(word)),
+  );
+}
@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TrendingPostsService } from './trending-posts.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TrendingWindow } from './dto/find-trending-posts-query.dto';
+
+describe('TrendingPostsService', () => {
+  let service: TrendingPostsService;
+
+  const mockPrismaService = {
+    trendingPostScore: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    postViewBucket: {
+      deleteMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrendingPostsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TrendingPostsService>(TrendingPostsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findTrending', () => {
+    it('reads the stored ranking of the requested window', async () => {
+      const computedAt = new Date('2026-10-19T12:00:00Z');
+      mockPrismaService.trendingPostScore.findMany.mockResolvedValue([
+        { score: 12.5, computedAt, post: { id: 3, title: 'Hot' } },
+        { score: 4, computedAt, post: { id: 1, title: 'Warm' } },
+      ]);
+
+      const result = await service.findTrending(TrendingWindow.WEEK, 10);
+
+      expect(mockPrismaService.trendingPostScore.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ windowHours: 168 }) as object,
+          take: 10,
+        }),
+      );
+      expect(result).toEqual({
+        window: '7d',
+        computedAt,
+        data: [
+          { id: 3, title: 'Hot', score: 12.5 },
+          { id: 1, title: 'Warm', score: 4 },
+        ],
+      });
+    });
+
+    it('returns an empty ranking before the first recompute', async () => {
+      mockPrismaService.trendingPostScore.findMany.mockResolvedValue([]);
+
+      const result = await service.findTrending(TrendingWindow.DAY, 10);
+
+      expect(result).toEqual({ window: '24h', computedAt: null, data: [] });
+    });
+  });
+
+  describe('recomputeScores', () => {
+    it('combines weighted views, reactions and comments into one ranking per window', async () => {
+      // Every window sees the same engagement: views, reactions, comments
+      mockPrismaService.$queryRaw.mockImplementation(
+        (strings: TemplateStringsArray) => {
+          const sql = strings.join('');
+          if (sql.includes('PostViewBucket'))
+            return Promise.resolve([
+              { postId: 1, score: 10 },
+              { postId: 2, score: 2 },
+            ]);
+          if (sql.includes('PostReaction'))
+            return Promise.resolve([{ postId: 2, score: 2 }]);
+          return Promise.resolve([{ postId: 3, score: 1 }]);
+        },
+      );
+      mockPrismaService.postViewBucket.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      const result = await service.recomputeScores();
+
+      expect(result.count).toBe(9);
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(3);
+      expect(
+        mockPrismaService.trendingPostScore.createMany,
+      ).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ postId: 1, windowHours: 24, score: 10 }),
+          expect.objectContaining({ postId: 2, windowHours: 24, score: 8 }),
+          expect.objectContaining({ postId: 3, windowHours: 24, score: 5 }),
+        ],
+      });
+      expect(mockPrismaService.postViewBucket.deleteMany).toHaveBeenCalledWith({
+        where: { hour: { lt: expect.any(Date) as Date } },
+      });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { mediaSelect } from '../media/media.service';
+import { TrendingWindow } from './dto/find-trending-posts-query.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+export const TRENDING_WINDOW_HOURS: Record<TrendingWindow, number> = {
+  [TrendingWindow.DAY]: 24,
+  [TrendingWindow.WEEK]: 7 * 24,
+  [TrendingWindow.MONTH]: 30 * 24,
+};
+// Posts kept in the ranking of each window
+const TRENDING_LIMIT = 100;
+
+// Engagement worth per event, a reaction or comment says more than a view
+const WEIGHTS = { view: 1, reaction: 3, comment: 5 };
+
+const trendingPostSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  readingTime: true,
+  viewCount: true,
+  createdAt: true,
+  author: { select: { id: true, name: true } },
+  categories: { select: { id: true, name: true } },
+  coverImage: { select: mediaSelect },
+} satisfies Prisma.PostSelect;
+
+@Injectable()
+export class TrendingPostsService {
+  private readonly logger = new Logger(TrendingPostsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  // GET TRENDING POSTS OF A WINDOW (from the last recompute)
+  async findTrending(window: TrendingWindow, limit: number) {
+    const scores = await this.prisma.trendingPostScore.findMany({
+      where: {
+        windowHours: TRENDING_WINDOW_HOURS[window],
+        // Posts unpublished since the last recompute drop out right away
+        post: { status: PostStatus.PUBLISHED, deletedAt: null },
+      },
+      select: {
+        score: true,
+        computedAt: true,
+        post: { select: trendingPostSelect },
+      },
+      orderBy: [{ score: 'desc' }, { postId: 'desc' }],
+      take: limit,
+    });
+
+    return {
+      window,
+      computedAt: scores[0]?.computedAt ?? null,
+      data: scores.map(({ score, post }) => ({ ...post, score })),
+    };
+  }
+
+  // Run every 10 minutes, rank posts by recent engagement for every window
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async recomputeScores() {
+    const now = new Date();
+    try {
+      let count = 0;
+      for (const hours of Object.values(TRENDING_WINDOW_HOURS))
+        count += await this.recomputeWindow(hours, now);
+
+      // View buckets older than the longest window are no longer needed
+      const maxHours = Math.max(...Object.values(TRENDING_WINDOW_HOURS));
+      await this.prisma.postViewBucket.deleteMany({
+        where: {
+          hour: { lt: new Date(now.getTime() - (maxHours + 1) * HOUR_MS) },
+        },
+      });
+      this.logger.log(`Recomputed trending scores for ${count} posts`);
+      return {
+        message: 'Trending scores recomputed successfully',
+        count,
+      };
+    } catch (error) {
+      this.logger.error('Failed to recompute trending posts', error);
+      throw error;
+    }
+  }
+
+  // Every event counts for its weight, halved every quarter of the window, so recent engagement wins
+  private async recomputeWindow(hours: number, now: Date) {
+    const since = new Date(now.getTime() - hours * HOUR_MS);
+    const halfLifeSeconds = (hours / 4) * 3600;
+    const decay = (column: Prisma.Sql) =>
+      Prisma.sql`EXP(-LN(2) * TIMESTAMPDIFF(SECOND, ${column}, ${now}) / ${halfLifeSeconds})`;
+    const visible = Prisma.sql`p.status = 'published' AND p.deletedAt IS NULL`;
+
+    const [views, reactions, comments] = await Promise.all([
+      this.prisma.$queryRaw<{ postId: number; score: number }[]>`
+        SELECT b.postId AS postId, SUM(b.views * ${decay(Prisma.sql`b.hour`)}) AS score
+        FROM PostViewBucket b JOIN Post p ON p.id = b.postId
+        WHERE b.hour >= ${since} AND ${visible}
+        GROUP BY b.postId`,
+      this.prisma.$queryRaw<{ postId: number; score: number }[]>`
+        SELECT r.postId AS postId, SUM(${decay(Prisma.sql`r.createdAt`)}) AS score
+        FROM PostReaction r JOIN Post p ON p.id = r.postId
+        WHERE r.createdAt >= ${since} AND ${visible}
+        GROUP BY r.postId`,
+      this.prisma.$queryRaw<{ postId: number; score: number }[]>`
+        SELECT c.postId AS postId, SUM(${decay(Prisma.sql`c.createdAt`)}) AS score
+        FROM Comment c JOIN Post p ON p.id = c.postId
+        WHERE c.createdAt >= ${since} AND c.status = 'approved' AND ${visible}
+        GROUP BY c.postId`,
+    ]);
+
+    const scores = new Map<number, number>();
+    const add = (rows: { postId: number; score: number }[], weight: number) =>
+      rows.forEach(({ postId, score }) =>
+        scores.set(postId, (scores.get(postId) ?? 0) + Number(score) * weight),
+      );
+    add(views, WEIGHTS.view);
+    add(reactions, WEIGHTS.reaction);
+    add(comments, WEIGHTS.comment);
+
+    const ranking = [...scores]
+      .sort(([idA, a], [idB, b]) => b - a || idB - idA)
+      .slice(0, TRENDING_LIMIT);
+
+    // Swap in the new ranking at once so readers never see a half written one
+    await this.prisma.$transaction([
+      this.prisma.trendingPostScore.deleteMany({
+        where: { windowHours: hours },
+      }),
+      this.prisma.trendingPostScore.createMany({
+        data: ranking.map(([postId, score]) => ({
+          postId,
+          windowHours: hours,
+          score: Math.round(score * 1000) / 1000,
+          computedAt: now,
+        })),
+      }),
+    ]);
+    return ranking.length;
+  }
+}
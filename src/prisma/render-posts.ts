@@ -0,0 +1,30 @@
+import { PrismaClient } from '@prisma/client';
+import { renderPostContent } from '../posts/post-content';
+
+const prisma = new PrismaClient();
+
+// Render the Markdown of posts saved before content was rendered on save
+async function main() {
+  const posts = await prisma.post.findMany({
+    where: { contentHtml: null },
+    select: { id: true, content: true },
+  });
+
+  for (const post of posts) {
+    await prisma.post.update({
+      where: { id: post.id },
+      data: renderPostContent(post.content),
+    });
+  }
+
+  console.log(`Rendered the content of ${posts.length} posts`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error while rendering post content:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,5 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { PostAuthorRole, PostStatus, PrismaClient } from '@prisma/client';
 import * as argon2 from 'argon2';
+import { slugify } from '../common/utils/slug.util';
+import { renderPostContent } from '../posts/post-content';
 
 const prisma = new PrismaClient();
 
@@ -140,7 +142,7 @@ async function main() {
         title: 'Getting Started with NestJS',
         content:
           'NestJS is a progressive Node.js framework for building efficient and scalable server-side applications...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[0].id,
         categoryIds: [categories[1].id, categories[2].id],
       },
@@ -148,21 +150,21 @@ async function main() {
         title: 'Modern Web Development Practices',
         content:
           'Explore the latest trends and best practices in modern web development...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[1].id,
         categoryIds: [categories[2].id],
       },
       {
         title: 'Introduction to Docker',
         content: 'Learn the basics of containerization with Docker...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[2].id,
         categoryIds: [categories[4].id, categories[7].id],
       },
       {
         title: 'React vs Vue: A Comparison',
         content: 'Detailed comparison of React and Vue frameworks...',
-        published: false,
+        status: PostStatus.DRAFT,
         authorId: users[3].id,
         categoryIds: [categories[2].id],
       },
@@ -170,7 +172,7 @@ async function main() {
         title: 'Mobile App Design Principles',
         content:
           'Essential principles for designing user-friendly mobile applications...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[4].id,
         categoryIds: [categories[3].id],
       },
@@ -178,28 +180,28 @@ async function main() {
         title: 'Machine Learning Basics',
         content:
           'Introduction to machine learning concepts and applications...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[5].id,
         categoryIds: [categories[5].id, categories[8].id],
       },
       {
         title: 'Scaling Node.js Applications',
         content: 'Learn how to scale Node.js applications for production...',
-        published: false,
+        status: PostStatus.DRAFT,
         authorId: users[6].id,
         categoryIds: [categories[1].id, categories[7].id],
       },
       {
         title: 'Testing Best Practices',
         content: 'Best practices for testing software applications...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[7].id,
         categoryIds: [categories[1].id],
       },
       {
         title: 'Cybersecurity Essentials',
         content: 'Essential cybersecurity practices for developers...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[8].id,
         categoryIds: [categories[6].id],
       },
@@ -207,7 +209,7 @@ async function main() {
         title: 'Technical Writing Tips',
         content:
           'Tips for writing clear and effective technical documentation...',
-        published: true,
+        status: PostStatus.PUBLISHED,
         authorId: users[9].id,
         categoryIds: [categories[9].id],
       },
@@ -215,11 +217,16 @@ async function main() {
       prisma.post.create({
         data: {
           title: post.title,
+          slug: slugify(post.title),
           content: post.content,
-          published: post.published,
+          ...renderPostContent(post.content),
+          status: post.status,
           author: {
             connect: { id: post.authorId },
           },
+          authors: {
+            create: { userId: post.authorId, role: PostAuthorRole.OWNER },
+          },
           categories: {
             connect: post.categoryIds.map((id) => ({ id })),
           },
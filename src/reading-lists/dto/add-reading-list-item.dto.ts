@@ -0,0 +1,10 @@
+import { IsInt, IsNotEmpty, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AddReadingListItemDto {
+  @Type(() => Number)
+  @IsInt()
+  @IsNotEmpty()
+  @IsPositive()
+  postId: number;
+}
@@ -0,0 +1,22 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class UpdateReadingListDto {
+  @IsString()
+  @IsOptional()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  name?: string;
+
+  // true creates a share link for the list, false revokes it
+  @IsOptional()
+  @IsBoolean()
+  shared?: boolean;
+}
@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ReadingListsService } from './reading-lists.service';
+import { CreateReadingListDto } from './dto/create-reading-list.dto';
+import { UpdateReadingListDto } from './dto/update-reading-list.dto';
+import { AddReadingListItemDto } from './dto/add-reading-list-item.dto';
+import { MoveReadingListItemDto } from './dto/move-reading-list-item.dto';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { Public } from 'src/auth/decorators/public.decorator';
+
+@Controller()
+export class ReadingListsController {
+  constructor(private readonly readingListsService: ReadingListsService) {}
+
+  // GET MY READING LISTS
+  @Get('me/reading-lists')
+  @UseInterceptors(PaginationLinksInterceptor)
+  findAll(
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.findAll(user.id, query);
+  }
+
+  // CREATE A READING LIST
+  @Post('me/reading-lists')
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createReadingListDto: CreateReadingListDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.create(user.id, createReadingListDto);
+  }
+
+  // GET ONE OF MY READING LISTS WITH ITS POSTS
+  @Get('me/reading-lists/:id')
+  findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.findOne(id, user.id, query);
+  }
+
+  // RENAME OR SHARE A READING LIST
+  @Patch('me/reading-lists/:id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateReadingListDto: UpdateReadingListDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.update(id, user.id, updateReadingListDto);
+  }
+
+  // DELETE A READING LIST
+  @Delete('me/reading-lists/:id')
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.remove(id, user.id);
+  }
+
+  // SAVE A POST TO A READING LIST
+  @Post('me/reading-lists/:id/items')
+  @HttpCode(HttpStatus.CREATED)
+  addItem(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() addReadingListItemDto: AddReadingListItemDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.addItem(id, user.id, addReadingListItemDto);
+  }
+
+  // MOVE A POST WITHIN A READING LIST
+  @Patch('me/reading-lists/:id/items/:postId')
+  moveItem(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('postId', ParseIntPipe) postId: number,
+    @Body() moveReadingListItemDto: MoveReadingListItemDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.moveItem(
+      id,
+      user.id,
+      postId,
+      moveReadingListItemDto,
+    );
+  }
+
+  // REMOVE A POST FROM A READING LIST
+  @Delete('me/reading-lists/:id/items/:postId')
+  removeItem(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('postId', ParseIntPipe) postId: number,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.readingListsService.removeItem(id, user.id, postId);
+  }
+
+  // GET A SHARED READING LIST
+  @Public()
+  @Get('reading-lists/shared/:token')
+  findShared(
+    @Param('token') token: string,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.readingListsService.findShared(token, query);
+  }
+}
@@ -0,0 +1,257 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PostStatus } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { ReadingListsService } from './reading-lists.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ReadingListsService', () => {
+  let service: ReadingListsService;
+
+  const mockPrismaService = {
+    readingList: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    readingListItem: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      aggregate: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+      update: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    post: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  // A list owned by user 2
+  const readingList = (overrides: object = {}) => ({
+    id: 1,
+    name: 'Later',
+    isDefault: false,
+    shareToken: null,
+    userId: 2,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    mockPrismaService.readingList.findUnique.mockResolvedValue(readingList());
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReadingListsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReadingListsService>(ReadingListsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('default list', () => {
+    it('creates the default list the first time lists are read', async () => {
+      mockPrismaService.readingList.findMany.mockResolvedValue([]);
+      mockPrismaService.readingList.count.mockResolvedValue(0);
+
+      await service.findAll(2, {});
+
+      expect(mockPrismaService.readingList.upsert).toHaveBeenCalledWith({
+        where: { userId_name: { userId: 2, name: 'Saved' } },
+        create: { userId: 2, name: 'Saved', isDefault: true },
+        update: {},
+      });
+      expect(mockPrismaService.readingList.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      );
+    });
+
+    it("keeps other lists from taking the default list's name", async () => {
+      await expect(service.create(2, { name: 'saved' })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.update(1, 2, { name: 'Saved' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.readingList.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.readingList.update).not.toHaveBeenCalled();
+    });
+
+    it('cannot be renamed or deleted', async () => {
+      mockPrismaService.readingList.findUnique.mockResolvedValue(
+        readingList({ name: 'Saved', isDefault: true }),
+      );
+
+      await expect(service.update(1, 2, { name: 'Other' })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.remove(1, 2)).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.readingList.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('items', () => {
+    it('saves a published post at the end of the list', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        status: PostStatus.PUBLISHED,
+      });
+      mockPrismaService.readingListItem.aggregate.mockResolvedValue({
+        _max: { position: 4 },
+      });
+
+      await service.addItem(1, 2, { postId: 9 });
+
+      expect(mockPrismaService.readingListItem.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { listId: 1, postId: 9, position: 5 },
+        }),
+      );
+    });
+
+    it('does not save unpublished posts or the same post twice', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValueOnce({
+        status: PostStatus.DRAFT,
+      });
+      await expect(service.addItem(1, 2, { postId: 9 })).rejects.toThrow(
+        NotFoundException,
+      );
+
+      mockPrismaService.post.findUnique.mockResolvedValueOnce({
+        status: PostStatus.PUBLISHED,
+      });
+      mockPrismaService.readingListItem.aggregate.mockResolvedValue({
+        _max: { position: null },
+      });
+      mockPrismaService.readingListItem.create.mockRejectedValue(
+        new PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+      await expect(service.addItem(1, 2, { postId: 9 })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('unsaves a post that is in the list', async () => {
+      mockPrismaService.readingListItem.deleteMany.mockResolvedValueOnce({
+        count: 1,
+      });
+      await service.removeItem(1, 2, 9);
+      expect(mockPrismaService.readingListItem.deleteMany).toHaveBeenCalledWith(
+        { where: { listId: 1, postId: 9 } },
+      );
+
+      mockPrismaService.readingListItem.deleteMany.mockResolvedValueOnce({
+        count: 0,
+      });
+      await expect(service.removeItem(1, 2, 9)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('moves a post and renumbers only the items that shifted', async () => {
+      mockPrismaService.readingListItem.findMany.mockResolvedValue([
+        { id: 10, postId: 1, position: 0 },
+        { id: 11, postId: 2, position: 1 },
+        { id: 12, postId: 3, position: 2 },
+        { id: 13, postId: 4, position: 3 },
+      ]);
+
+      await service.moveItem(1, 2, 3, { position: 0 });
+
+      const updates = mockPrismaService.readingListItem.update.mock
+        .calls as unknown[][];
+      expect(updates.map(([args]) => args)).toEqual([
+        { where: { id: 12 }, data: { position: 0 } },
+        { where: { id: 10 }, data: { position: 1 } },
+        { where: { id: 11 }, data: { position: 2 } },
+      ]);
+    });
+
+    it('only lists items that are still published', async () => {
+      mockPrismaService.readingListItem.findMany.mockResolvedValue([]);
+      mockPrismaService.readingListItem.count.mockResolvedValue(0);
+
+      await service.findOne(1, 2, {});
+
+      expect(mockPrismaService.readingListItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            listId: 1,
+            post: { status: PostStatus.PUBLISHED, deletedAt: null },
+          },
+          orderBy: [{ position: 'asc' }, { id: 'asc' }],
+        }),
+      );
+    });
+  });
+
+  describe('sharing', () => {
+    it('keeps lists private to their owner', async () => {
+      await expect(service.findOne(1, 3, {})).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('creates a share link once and revokes it', async () => {
+      await service.update(1, 2, { shared: true });
+      expect(mockPrismaService.readingList.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: { name: undefined, shareToken: expect.any(String) as string },
+        }),
+      );
+
+      mockPrismaService.readingList.findUnique.mockResolvedValue(
+        readingList({ shareToken: 'existing-token' }),
+      );
+      await service.update(1, 2, { shared: true });
+      expect(mockPrismaService.readingList.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: { name: undefined, shareToken: 'existing-token' },
+        }),
+      );
+
+      await service.update(1, 2, { shared: false });
+      expect(mockPrismaService.readingList.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: { name: undefined, shareToken: null },
+        }),
+      );
+    });
+
+    it('only finds shared lists by their share link', async () => {
+      mockPrismaService.readingList.findUnique.mockResolvedValue(null);
+
+      await expect(service.findShared('revoked', {})).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.readingList.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { shareToken: 'revoked' } }),
+      );
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateReadingListDto } from './dto/create-reading-list.dto';
+import { UpdateReadingListDto } from './dto/update-reading-list.dto';
+import { AddReadingListItemDto } from './dto/add-reading-list-item.dto';
+import { MoveReadingListItemDto } from './dto/move-reading-list-item.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/pagination';
+
+export const DEFAULT_READING_LIST_NAME = 'Saved';
+
+const readingListSelect = {
+  id: true,
+  name: true,
+  isDefault: true,
+  shareToken: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { items: true } },
+} satisfies Prisma.ReadingListSelect;
+
+const readingListItemSelect = {
+  id: true,
+  position: true,
+  createdAt: true,
+  post: {
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      createdAt: true,
+      author: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.ReadingListItemSelect;
+
+@Injectable()
+export class ReadingListsService {
+  constructor(private prisma: PrismaService) {}
+
+  // GET THE CURRENT USER'S READING LISTS (default list first)
+  async findAll(currentUserId: number, query: PaginationQueryDto) {
+    await this.getDefaultList(currentUserId);
+    const where = { userId: currentUserId };
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.readingList.findMany({
+          ...page,
+          where,
+          select: readingListSelect,
+          orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      () => this.prisma.readingList.count({ where }),
+    );
+  }
+
+  // CREATE A READING LIST
+  async create(
+    currentUserId: number,
+    createReadingListDto: CreateReadingListDto,
+  ) {
+    this.assertNotReservedName(createReadingListDto.name);
+    try {
+      return await this.prisma.readingList.create({
+        data: { name: createReadingListDto.name, userId: currentUserId },
+        select: readingListSelect,
+      });
+    } catch (error: any) {
+      if (
+        error instanceof PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      )
+        throw new ConflictException(
+          'A reading list with this name already exists',
+        );
+      throw error;
+    }
+  }
+
+  // GET A READING LIST WITH ITS POSTS (paginated, in list order)
+  async findOne(id: number, currentUserId: number, query: PaginationQueryDto) {
+    const list = await this.getOwnedList(id, currentUserId);
+    return { ...list, items: await this.findItems(list.id, query) };
+  }
+
+  // RENAME, SHARE OR UNSHARE A READING LIST
+  async update(
+    id: number,
+    currentUserId: number,
+    updateReadingListDto: UpdateReadingListDto,
+  ) {
+    const list = await this.getOwnedList(id, currentUserId);
+    const { name, shared } = updateReadingListDto;
+
+    if (name !== undefined && name !== list.name && list.isDefault)
+      throw new BadRequestException(
+        'The default reading list cannot be renamed',
+      );
+    if (name !== undefined && !list.isDefault) this.assertNotReservedName(name);
+
+    // Keep an existing share link stable when sharing an already shared list
+    let shareToken: string | null | undefined;
+    if (shared === true)
+      shareToken = list.shareToken ?? this.generateShareToken();
+    if (shared === false) shareToken = null;
+
+    try {
+      return await this.prisma.readingList.update({
+        where: { id },
+        data: { name, shareToken },
+        select: readingListSelect,
+      });
+    } catch (error: any) {
+      if (
+        error instanceof PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      )
+        throw new ConflictException(
+          'A reading list with this name already exists',
+        );
+      throw error;
+    }
+  }
+
+  // DELETE A READING LIST (the default list is kept)
+  async remove(id: number, currentUserId: number) {
+    const list = await this.getOwnedList(id, currentUserId);
+    if (list.isDefault)
+      throw new BadRequestException(
+        'The default reading list cannot be deleted',
+      );
+
+    return this.prisma.readingList.delete({
+      where: { id },
+      select: readingListSelect,
+    });
+  }
+
+  // ADD A POST TO THE END OF A READING LIST
+  async addItem(
+    id: number,
+    currentUserId: number,
+    addReadingListItemDto: AddReadingListItemDto,
+  ) {
+    await this.getOwnedList(id, currentUserId);
+    const { postId } = addReadingListItemDto;
+
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, deletedAt: null },
+      select: { status: true },
+    });
+    if (!post || post.status !== PostStatus.PUBLISHED)
+      throw new NotFoundException(`Post with ID ${postId} not found`);
+
+    const last = await this.prisma.readingListItem.aggregate({
+      where: { listId: id },
+      _max: { position: true },
+    });
+
+    try {
+      return await this.prisma.readingListItem.create({
+        data: { listId: id, postId, position: (last._max.position ?? -1) + 1 },
+        select: readingListItemSelect,
+      });
+    } catch (error: any) {
+      if (
+        error instanceof PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      )
+        throw new ConflictException('Post is already in this reading list');
+      throw error;
+    }
+  }
+
+  // REMOVE A POST FROM A READING LIST
+  async removeItem(id: number, currentUserId: number, postId: number) {
+    await this.getOwnedList(id, currentUserId);
+
+    const { count } = await this.prisma.readingListItem.deleteMany({
+      where: { listId: id, postId },
+    });
+    if (count === 0)
+      throw new NotFoundException(
+        `Post with ID ${postId} is not in this reading list`,
+      );
+    return { message: 'Post removed from reading list' };
+  }
+
+  // MOVE A POST TO ANOTHER POSITION IN A READING LIST
+  async moveItem(
+    id: number,
+    currentUserId: number,
+    postId: number,
+    moveReadingListItemDto: MoveReadingListItemDto,
+  ) {
+    await this.getOwnedList(id, currentUserId);
+
+    return await this.prisma.$transaction(async (prisma) => {
+      const items = await prisma.readingListItem.findMany({
+        where: { listId: id },
+        select: { id: true, postId: true, position: true },
+        orderBy: [{ position: 'asc' }, { id: 'asc' }],
+      });
+
+      const from = items.findIndex((item) => item.postId === postId);
+      if (from === -1)
+        throw new NotFoundException(
+          `Post with ID ${postId} is not in this reading list`,
+        );
+
+      const to = Math.min(moveReadingListItemDto.position, items.length - 1);
+      const [moved] = items.splice(from, 1);
+      items.splice(to, 0, moved);
+
+      // Renumber the list, only rows whose position changed are written
+      await Promise.all(
+        items
+          .map((item, position) => ({ ...item, newPosition: position }))
+          .filter((item) => item.position !== item.newPosition)
+          .map((item) =>
+            prisma.readingListItem.update({
+              where: { id: item.id },
+              data: { position: item.newPosition },
+            }),
+          ),
+      );
+
+      return prisma.readingListItem.findUniqueOrThrow({
+        where: { id: moved.id },
+        select: readingListItemSelect,
+      });
+    });
+  }
+
+  // GET A SHARED READING LIST BY ITS SHARE LINK
+  async findShared(shareToken: string, query: PaginationQueryDto) {
+    const list = await this.prisma.readingList.findUnique({
+      where: { shareToken },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        updatedAt: true,
+        user: { select: { id: true, name: true } },
+      },
+    });
+    if (!list) throw new NotFoundException('Reading list not found');
+
+    return { ...list, items: await this.findItems(list.id, query) };
+  }
+
+  // Every user has a default list, it is created the first time it is needed
+  private async getDefaultList(currentUserId: number) {
+    return this.prisma.readingList.upsert({
+      where: {
+        userId_name: { userId: currentUserId, name: DEFAULT_READING_LIST_NAME },
+      },
+      create: {
+        userId: currentUserId,
+        name: DEFAULT_READING_LIST_NAME,
+        isDefault: true,
+      },
+      update: {},
+    });
+  }
+
+  // The default list is found by its name, no other list may take it (names compare case-insensitively)
+  private assertNotReservedName(name: string) {
+    if (name.toLowerCase() === DEFAULT_READING_LIST_NAME.toLowerCase())
+      throw new BadRequestException(
+        `"${DEFAULT_READING_LIST_NAME}" is reserved for the default reading list`,
+      );
+  }
+
+  private async getOwnedList(id: number, currentUserId: number) {
+    const list = await this.prisma.readingList.findUnique({
+      where: { id },
+      select: { ...readingListSelect, userId: true },
+    });
+    if (!list)
+      throw new NotFoundException(`Reading list with ID ${id} not found`);
+
+    // Reading lists are private to their owner, sharing goes through the share link
+    if (list.userId !== currentUserId)
+      throw new ForbiddenException(
+        'You do not have access to this reading list',
+      );
+    return list;
+  }
+
+  // Posts that are no longer published or were trashed stay in the list but are not shown
+  private findItems(listId: number, query: PaginationQueryDto) {
+    const where = {
+      listId,
+      post: { status: PostStatus.PUBLISHED, deletedAt: null },
+    };
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.readingListItem.findMany({
+          ...page,
+          where,
+          select: readingListItemSelect,
+          orderBy: [{ position: 'asc' }, { id: 'asc' }],
+        }),
+      () => this.prisma.readingListItem.count({ where }),
+    );
+  }
+
+  private generateShareToken() {
+    return randomBytes(18).toString('base64url');
+  }
+}
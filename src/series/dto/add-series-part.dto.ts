@@ -0,0 +1,23 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AddSeriesPartDto {
+  @Type(() => Number)
+  @IsInt()
+  @IsNotEmpty()
+  @IsPositive()
+  postId: number;
+
+  // Zero based position in the series, the post is added at the end when omitted
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
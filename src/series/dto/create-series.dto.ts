@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString, IsOptional, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CreateSeriesDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(191)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  description?: string;
+}
@@ -0,0 +1,10 @@
+import { IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class MoveSeriesPartDto {
+  // Zero based position in the series, positions past the end move the post to the end
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  position: number;
+}
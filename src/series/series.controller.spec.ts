@@ -0,0 +1,39 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SeriesController } from './series.controller';
+import { SeriesService } from './series.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SeriesController', () => {
+  let controller: SeriesController;
+
+  const mockPrismaService = {
+    series: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    seriesPart: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SeriesController],
+      providers: [
+        SeriesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<SeriesController>(SeriesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+} from '@nestjs/common';
+import { SeriesService } from './series.service';
+import { CreateSeriesDto } from './dto/create-series.dto';
+import { UpdateSeriesDto } from './dto/update-series.dto';
+import { AddSeriesPartDto } from './dto/add-series-part.dto';
+import { MoveSeriesPartDto } from './dto/move-series-part.dto';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { UserRole } from '@prisma/client';
+
+@Controller('series')
+export class SeriesController {
+  constructor(private readonly seriesService: SeriesService) {}
+
+  // CREATE A SERIES
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createSeriesDto: CreateSeriesDto,
+    @CurrentUser() user: { id: number },
+  ) {
+    return this.seriesService.create(user.id, createSeriesDto);
+  }
+
+  // GET ALL SERIES
+  @Public()
+  @Get()
+  @UseInterceptors(PaginationLinksInterceptor)
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.seriesService.findAll(query);
+  }
+
+  // GET A SERIES WITH ITS PARTS
+  @Public()
+  @Get(':id')
+  findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user?: { id: number; role: UserRole },
+  ) {
+    return this.seriesService.findOne(id, user?.id, user?.role);
+  }
+
+  // UPDATE A SERIES
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateSeriesDto: UpdateSeriesDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.seriesService.update(id, updateSeriesDto, user.id, user.role);
+  }
+
+  // DELETE A SERIES
+  @Delete(':id')
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.seriesService.remove(id, user.id, user.role);
+  }
+
+  // ADD A POST TO A SERIES
+  @Post(':id/parts')
+  @HttpCode(HttpStatus.CREATED)
+  addPart(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() addSeriesPartDto: AddSeriesPartDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.seriesService.addPart(id, addSeriesPartDto, user.id, user.role);
+  }
+
+  // MOVE A POST WITHIN A SERIES
+  @Patch(':id/parts/:postId')
+  movePart(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('postId', ParseIntPipe) postId: number,
+    @Body() moveSeriesPartDto: MoveSeriesPartDto,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.seriesService.movePart(
+      id,
+      postId,
+      moveSeriesPartDto,
+      user.id,
+      user.role,
+    );
+  }
+
+  // REMOVE A POST FROM A SERIES
+  @Delete(':id/parts/:postId')
+  removePart(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('postId', ParseIntPipe) postId: number,
+    @CurrentUser() user: { id: number; role: UserRole },
+  ) {
+    return this.seriesService.removePart(id, postId, user.id, user.role);
+  }
+}
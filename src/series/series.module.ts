@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SeriesService } from './series.service';
+import { SeriesController } from './series.controller';
+
+@Module({
+  controllers: [SeriesController],
+  providers: [SeriesService],
+  exports: [SeriesService],
+})
+export class SeriesModule {}
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { SeriesService } from './series.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SeriesService', () => {
+  let service: SeriesService;
+
+  const mockPrismaService = {
+    series: { findUnique: jest.fn() },
+    post: { findUnique: jest.fn() },
+    seriesPart: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const postRef = (id: number) => ({
+    post: { id, title: `Part ${id}`, slug: `part-${id}` },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SeriesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SeriesService>(SeriesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('links a part to its previous and next parts', async () => {
+    mockPrismaService.seriesPart.findUnique.mockResolvedValue({
+      series: { id: 4, title: 'Learning NestJS' },
+    });
+    mockPrismaService.seriesPart.findMany.mockResolvedValue([
+      postRef(10),
+      postRef(11),
+      postRef(12),
+    ]);
+
+    await expect(service.getNavigation(11)).resolves.toEqual({
+      id: 4,
+      title: 'Learning NestJS',
+      part: 2,
+      totalParts: 3,
+      previous: postRef(10).post,
+      next: postRef(12).post,
+    });
+  });
+
+  it('returns no navigation for posts outside a series', async () => {
+    mockPrismaService.seriesPart.findUnique.mockResolvedValue(null);
+
+    await expect(service.getNavigation(1)).resolves.toBeNull();
+  });
+
+  it('inserts a part at the requested position', async () => {
+    mockPrismaService.series.findUnique.mockResolvedValue({
+      id: 4,
+      ownerId: 1,
+    });
+    mockPrismaService.post.findUnique.mockResolvedValue({
+      authors: [{ id: 1 }],
+      seriesPart: null,
+    });
+    mockPrismaService.seriesPart.findMany.mockResolvedValue([
+      { id: 1, position: 0 },
+      { id: 2, position: 1 },
+    ]);
+    mockPrismaService.seriesPart.create.mockResolvedValue({
+      id: 3,
+      position: 2,
+    });
+
+    await service.addPart(4, { postId: 9, position: 0 }, 1, UserRole.USER);
+
+    const updates = mockPrismaService.seriesPart.update.mock.calls.map(
+      ([args]: [{ where: { id: number }; data: { position: number } }]) => [
+        args.where.id,
+        args.data.position,
+      ],
+    );
+    expect(updates).toEqual([
+      [3, 0],
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+
+  it('rejects posts that are in a series already or not authored by the owner', async () => {
+    mockPrismaService.series.findUnique.mockResolvedValue({
+      id: 4,
+      ownerId: 1,
+    });
+
+    mockPrismaService.post.findUnique.mockResolvedValueOnce({
+      authors: [],
+      seriesPart: null,
+    });
+    await expect(
+      service.addPart(4, { postId: 9 }, 1, UserRole.USER),
+    ).rejects.toThrow(ForbiddenException);
+
+    mockPrismaService.post.findUnique.mockResolvedValueOnce({
+      authors: [{ id: 1 }],
+      seriesPart: { seriesId: 5 },
+    });
+    await expect(
+      service.addPart(4, { postId: 9 }, 1, UserRole.USER),
+    ).rejects.toThrow(ConflictException);
+  });
+});
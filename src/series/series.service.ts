@@ -0,0 +1,320 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PostStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateSeriesDto } from './dto/create-series.dto';
+import { UpdateSeriesDto } from './dto/update-series.dto';
+import { AddSeriesPartDto } from './dto/add-series-part.dto';
+import { MoveSeriesPartDto } from './dto/move-series-part.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/pagination';
+
+// Parts readers can see, drafts and trashed posts keep their place but are hidden
+const visiblePartWhere = {
+  post: { status: PostStatus.PUBLISHED, deletedAt: null },
+} satisfies Prisma.SeriesPartWhereInput;
+
+const seriesSelect = {
+  id: true,
+  title: true,
+  description: true,
+  createdAt: true,
+  updatedAt: true,
+  owner: { select: { id: true, name: true } },
+} satisfies Prisma.SeriesSelect;
+
+const seriesPartSelect = {
+  position: true,
+  post: {
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      status: true,
+      excerpt: true,
+      readingTime: true,
+      createdAt: true,
+      author: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.SeriesPartSelect;
+
+const seriesPartOrder: Prisma.SeriesPartOrderByWithRelationInput[] = [
+  { position: 'asc' },
+  { id: 'asc' },
+];
+
+@Injectable()
+export class SeriesService {
+  constructor(private prisma: PrismaService) {}
+
+  // GET ALL SERIES (newest first, with the number of published parts)
+  async findAll(query: PaginationQueryDto) {
+    const page = await paginate(
+      query,
+      (page) =>
+        this.prisma.series.findMany({
+          ...page,
+          select: {
+            ...seriesSelect,
+            _count: { select: { parts: { where: visiblePartWhere } } },
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      () => this.prisma.series.count(),
+    );
+
+    return {
+      ...page,
+      data: page.data.map(({ _count, ...series }) => ({
+        ...series,
+        partCount: _count.parts,
+      })),
+    };
+  }
+
+  // CREATE A SERIES
+  async create(currentUserId: number, createSeriesDto: CreateSeriesDto) {
+    return this.prisma.series.create({
+      data: { ...createSeriesDto, ownerId: currentUserId },
+      select: seriesSelect,
+    });
+  }
+
+  // GET A SERIES WITH ITS PARTS IN ORDER (the owner and admins also see unpublished parts)
+  async findOne(id: number, currentUserId?: number, userRole?: UserRole) {
+    const series = await this.prisma.series.findUnique({
+      where: { id },
+      select: seriesSelect,
+    });
+    if (!series) throw new NotFoundException(`Series with ID ${id} not found`);
+
+    const canManage =
+      userRole === UserRole.ADMIN || series.owner.id === currentUserId;
+    const parts = await this.prisma.seriesPart.findMany({
+      where: canManage
+        ? { seriesId: id, post: { deletedAt: null } }
+        : { seriesId: id, ...visiblePartWhere },
+      select: seriesPartSelect,
+      orderBy: seriesPartOrder,
+    });
+
+    return {
+      ...series,
+      parts: parts.map(({ post }, index) => ({ part: index + 1, ...post })),
+    };
+  }
+
+  // UPDATE A SERIES (owner or admin)
+  async update(
+    id: number,
+    updateSeriesDto: UpdateSeriesDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getOwnedSeries(id, currentUserId, userRole, 'edit');
+
+    return this.prisma.series.update({
+      where: { id },
+      data: updateSeriesDto,
+      select: seriesSelect,
+    });
+  }
+
+  // DELETE A SERIES (owner or admin), its posts are kept
+  async remove(id: number, currentUserId: number, userRole: UserRole) {
+    await this.getOwnedSeries(id, currentUserId, userRole, 'delete');
+
+    return this.prisma.series.delete({
+      where: { id },
+      select: seriesSelect,
+    });
+  }
+
+  // ADD A POST TO A SERIES (series owner or admin, the post must be one the user authored)
+  async addPart(
+    id: number,
+    addSeriesPartDto: AddSeriesPartDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getOwnedSeries(id, currentUserId, userRole, 'edit');
+    const { postId, position } = addSeriesPartDto;
+
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId, deletedAt: null },
+      select: {
+        authors: { where: { userId: currentUserId }, select: { id: true } },
+        seriesPart: { select: { seriesId: true } },
+      },
+    });
+    if (!post) throw new NotFoundException(`Post with ID ${postId} not found`);
+    if (userRole !== UserRole.ADMIN && post.authors.length === 0)
+      throw new ForbiddenException(
+        'You can only add posts you authored to a series',
+      );
+    if (post.seriesPart)
+      throw new ConflictException(
+        post.seriesPart.seriesId === id
+          ? 'Post is already part of this series'
+          : 'Post is already part of another series',
+      );
+
+    try {
+      return await this.prisma.$transaction(async (prisma) => {
+        const parts = await prisma.seriesPart.findMany({
+          where: { seriesId: id },
+          select: { id: true, position: true },
+          orderBy: seriesPartOrder,
+        });
+
+        const part = await prisma.seriesPart.create({
+          data: { seriesId: id, postId, position: parts.length },
+          select: { id: true, position: true },
+        });
+        parts.splice(position ?? parts.length, 0, part);
+        await this.renumber(prisma, parts);
+
+        return this.findPart(prisma, part.id);
+      });
+    } catch (error: any) {
+      if (
+        error instanceof PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      )
+        throw new ConflictException('Post is already part of a series');
+      throw error;
+    }
+  }
+
+  // MOVE A POST TO ANOTHER POSITION IN A SERIES
+  async movePart(
+    id: number,
+    postId: number,
+    moveSeriesPartDto: MoveSeriesPartDto,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getOwnedSeries(id, currentUserId, userRole, 'edit');
+
+    return await this.prisma.$transaction(async (prisma) => {
+      const parts = await prisma.seriesPart.findMany({
+        where: { seriesId: id },
+        select: { id: true, postId: true, position: true },
+        orderBy: seriesPartOrder,
+      });
+
+      const from = parts.findIndex((part) => part.postId === postId);
+      if (from === -1)
+        throw new NotFoundException(
+          `Post with ID ${postId} is not part of this series`,
+        );
+
+      const [moved] = parts.splice(from, 1);
+      parts.splice(moveSeriesPartDto.position, 0, moved);
+      await this.renumber(prisma, parts);
+
+      return this.findPart(prisma, moved.id);
+    });
+  }
+
+  // REMOVE A POST FROM A SERIES
+  async removePart(
+    id: number,
+    postId: number,
+    currentUserId: number,
+    userRole: UserRole,
+  ) {
+    await this.getOwnedSeries(id, currentUserId, userRole, 'edit');
+
+    const { count } = await this.prisma.seriesPart.deleteMany({
+      where: { seriesId: id, postId },
+    });
+    if (count === 0)
+      throw new NotFoundException(
+        `Post with ID ${postId} is not part of this series`,
+      );
+    return { message: 'Post removed from series' };
+  }
+
+  // Series a post belongs to with the neighbouring parts, null for posts outside a series
+  async getNavigation(postId: number) {
+    const current = await this.prisma.seriesPart.findUnique({
+      where: { postId },
+      select: { series: { select: { id: true, title: true } } },
+    });
+    if (!current) return null;
+
+    // Unpublished parts are skipped, the post being read is always counted
+    const parts = await this.prisma.seriesPart.findMany({
+      where: {
+        seriesId: current.series.id,
+        OR: [{ postId }, visiblePartWhere],
+      },
+      select: { post: { select: { id: true, title: true, slug: true } } },
+      orderBy: seriesPartOrder,
+    });
+    const index = parts.findIndex((part) => part.post.id === postId);
+
+    return {
+      ...current.series,
+      part: index + 1,
+      totalParts: parts.length,
+      previous: parts[index - 1]?.post ?? null,
+      next: parts[index + 1]?.post ?? null,
+    };
+  }
+
+  private async getOwnedSeries(
+    id: number,
+    currentUserId: number,
+    userRole: UserRole,
+    action: 'edit' | 'delete',
+  ) {
+    const series = await this.prisma.series.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true },
+    });
+    if (!series) throw new NotFoundException(`Series with ID ${id} not found`);
+
+    // Authorization check if its admin or the series owner
+    const isAdmin = userRole === UserRole.ADMIN;
+    const isOwner = series.ownerId === currentUserId;
+
+    if (!isAdmin && !isOwner)
+      throw new ForbiddenException(
+        `You do not have permission to ${action} this series`,
+      );
+    return series;
+  }
+
+  // Store the given order as positions 0..n-1, only rows whose position changed are written
+  private async renumber(
+    prisma: Prisma.TransactionClient,
+    parts: { id: number; position: number }[],
+  ) {
+    await Promise.all(
+      parts
+        .map((part, position) => ({ ...part, newPosition: position }))
+        .filter((part) => part.position !== part.newPosition)
+        .map((part) =>
+          prisma.seriesPart.update({
+            where: { id: part.id },
+            data: { position: part.newPosition },
+          }),
+        ),
+    );
+  }
+
+  private findPart(prisma: Prisma.TransactionClient, id: number) {
+    return prisma.seriesPart.findUniqueOrThrow({
+      where: { id },
+      select: seriesPartSelect,
+    });
+  }
+}
@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SitemapController } from './sitemap.controller';
+import { SitemapService } from './sitemap.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SitemapController', () => {
+  let controller: SitemapController;
+
+  const mockPrismaService = {
+    post: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SitemapController],
+      providers: [
+        SitemapService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    controller = module.get<SitemapController>(SitemapController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
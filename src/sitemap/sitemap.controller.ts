@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  HttpStatus,
+  Req,
+  Res,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { SitemapService, type SitemapDocument } from './sitemap.service';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { computeEtag, isNotModified } from 'src/common/http/conditional-get';
+
+@Controller()
+export class SitemapController {
+  constructor(private readonly sitemapService: SitemapService) {}
+
+  // GET THE SITEMAP OR SITEMAP INDEX
+  @Public()
+  @Get('sitemap.xml')
+  async sitemap(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(req, res, await this.sitemapService.getSitemap());
+  }
+
+  // GET ONE FILE OF A SPLIT SITEMAP
+  @Public()
+  @Get('sitemap-:page.xml')
+  async page(
+    @Param('page', ParseIntPipe) page: number,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(req, res, await this.sitemapService.getPage(page));
+  }
+
+  private send(req: Request, res: Response, document: SitemapDocument) {
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    const etag = computeEtag(document.xml);
+    if (
+      isNotModified(req, res, { etag, lastModified: document.lastModified })
+    ) {
+      res.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    return document.xml;
+  }
+}
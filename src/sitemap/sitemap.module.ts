@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SitemapService } from './sitemap.service';
+import { SitemapController } from './sitemap.controller';
+
+@Module({
+  controllers: [SitemapController],
+  providers: [SitemapService],
+  exports: [SitemapService],
+})
+export class SitemapModule {}
@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { SitemapService, SITEMAP_MAX_URLS } from './sitemap.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SitemapService', () => {
+  let service: SitemapService;
+
+  const mockPrismaService = {
+    post: { findMany: jest.fn() },
+  };
+
+  const post = (id: number, updatedAt: string) => ({
+    slug: `post-${id}`,
+    updatedAt: new Date(updatedAt),
+    authors: [{ userId: 1 }],
+    categories: [{ id: 2 }],
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SitemapService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'https://blog.example.com') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SitemapService>(SitemapService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('lists posts, categories and authors with their lastmod', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue([
+      post(2, '2026-05-02T00:00:00Z'),
+      post(1, '2026-05-01T00:00:00Z'),
+    ]);
+
+    const sitemap = await service.getSitemap();
+
+    expect(sitemap.xml).toContain('<urlset');
+    expect(sitemap.xml).toContain(
+      '<loc>https://blog.example.com/posts/post-1</loc>\n    <lastmod>2026-05-01T00:00:00.000Z</lastmod>',
+    );
+    expect(sitemap.xml).toContain(
+      '<loc>https://blog.example.com/categories/2</loc>\n    <lastmod>2026-05-02T00:00:00.000Z</lastmod>',
+    );
+    expect(sitemap.xml).toContain(
+      '<loc>https://blog.example.com/authors/1</loc>',
+    );
+    expect(sitemap.lastModified).toEqual(new Date('2026-05-02T00:00:00Z'));
+    await expect(service.getPage(1)).rejects.toThrow(NotFoundException);
+  });
+
+  it('caches the sitemap until it is invalidated', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue([]);
+
+    await service.getSitemap();
+    await service.getSitemap();
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledTimes(1);
+
+    service.invalidate();
+    await service.getSitemap();
+    expect(mockPrismaService.post.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('splits into a sitemap index above the per-file limit', async () => {
+    mockPrismaService.post.findMany.mockResolvedValue(
+      Array.from({ length: SITEMAP_MAX_URLS }, (_, i) =>
+        post(i, '2026-05-01T00:00:00Z'),
+      ),
+    );
+
+    const sitemap = await service.getSitemap();
+
+    expect(sitemap.xml).toContain('<sitemapindex');
+    expect(sitemap.xml).toContain(
+      '<loc>https://blog.example.com/api/sitemap-2.xml</loc>',
+    );
+    expect((await service.getPage(2)).xml).toContain(
+      '<loc>https://blog.example.com/authors/1</loc>',
+    );
+    await expect(service.getPage(3)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,182 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PostStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { escapeHtml } from '../common/utils/html.util';
+import {
+  DEFAULT_PUBLIC_BASE_URL,
+  publicUrls,
+} from '../common/utils/public-url.util';
+
+// Search engines accept at most 50,000 URLs per sitemap file
+export const SITEMAP_MAX_URLS = 50000;
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: Date;
+}
+
+export interface SitemapDocument {
+  xml: string;
+  lastModified: Date;
+}
+
+interface BuiltSitemap {
+  root: SitemapDocument; // the sitemap itself, or an index of its pages when it has to be split
+  pages: SitemapDocument[];
+}
+
+@Injectable()
+export class SitemapService {
+  private readonly logger = new Logger(SitemapService.name);
+  private readonly urls: ReturnType<typeof publicUrls>;
+  private cached: Promise<BuiltSitemap> | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.urls = publicUrls(
+      this.configService.get<string>('PUBLIC_BASE_URL') ||
+        DEFAULT_PUBLIC_BASE_URL,
+    );
+  }
+
+  // GET THE SITEMAP (a sitemap index when there are more URLs than fit in one file)
+  async getSitemap() {
+    return (await this.getBuilt()).root;
+  }
+
+  // GET ONE PAGE OF A SPLIT SITEMAP (pages start at 1)
+  async getPage(page: number) {
+    const { pages } = await this.getBuilt();
+    // An unsplit sitemap is served at the root only
+    if (pages.length < 2 || page < 1 || page > pages.length)
+      throw new NotFoundException(`Sitemap page ${page} not found`);
+    return pages[page - 1];
+  }
+
+  // Drop the cached sitemap, the next request rebuilds it. Called whenever a post is created, changed or deleted
+  invalidate() {
+    this.cached = null;
+  }
+
+  private getBuilt() {
+    if (!this.cached) {
+      const build = this.build();
+      this.cached = build;
+      // A failed build is not cached, the next request tries again
+      build.catch(() => {
+        if (this.cached === build) this.cached = null;
+      });
+    }
+    return this.cached;
+  }
+
+  private async build(): Promise<BuiltSitemap> {
+    const posts = await this.prisma.post.findMany({
+      where: { status: PostStatus.PUBLISHED, deletedAt: null },
+      select: {
+        slug: true,
+        updatedAt: true,
+        authors: { select: { userId: true } },
+        categories: { select: { id: true } },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+
+    // Category and author pages list posts, they change when one of their published posts does
+    const categories = new Map<number, Date>();
+    const authors = new Map<number, Date>();
+    const bump = (map: Map<number, Date>, id: number, date: Date) => {
+      const current = map.get(id);
+      if (!current || date > current) map.set(id, date);
+    };
+    for (const post of posts) {
+      post.authors.forEach(({ userId }) =>
+        bump(authors, userId, post.updatedAt),
+      );
+      post.categories.forEach(({ id }) => bump(categories, id, post.updatedAt));
+    }
+
+    const lastModified = posts.reduce(
+      (latest, post) => (post.updatedAt > latest ? post.updatedAt : latest),
+      new Date(0),
+    );
+
+    const entries: SitemapUrl[] = [
+      { loc: this.urls.home, lastmod: posts.length ? lastModified : undefined },
+      ...posts.map((post) => ({
+        loc: this.urls.post(post.slug),
+        lastmod: post.updatedAt,
+      })),
+      ...[...categories].map(([id, lastmod]) => ({
+        loc: this.urls.category(id),
+        lastmod,
+      })),
+      ...[...authors].map(([id, lastmod]) => ({
+        loc: this.urls.author(id),
+        lastmod,
+      })),
+    ];
+
+    const pages: SitemapDocument[] = [];
+    for (let start = 0; start < entries.length; start += SITEMAP_MAX_URLS) {
+      const chunk = entries.slice(start, start + SITEMAP_MAX_URLS);
+      pages.push({
+        xml: this.urlset(chunk),
+        lastModified: chunk.reduce(
+          (latest, { lastmod }) =>
+            lastmod && lastmod > latest ? lastmod : latest,
+          new Date(0),
+        ),
+      });
+    }
+
+    this.logger.log(
+      `Built sitemap with ${entries.length} URLs in ${pages.length} file(s)`,
+    );
+
+    if (pages.length === 1) return { root: pages[0], pages };
+    return {
+      root: { xml: this.index(pages), lastModified },
+      pages,
+    };
+  }
+
+  private urlset(entries: SitemapUrl[]) {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries.map(({ loc, lastmod }) =>
+        [
+          '  <url>',
+          `    <loc>${escapeHtml(loc)}</loc>`,
+          ...(lastmod
+            ? [`    <lastmod>${lastmod.toISOString()}</lastmod>`]
+            : []),
+          '  </url>',
+        ].join('\n'),
+      ),
+      '</urlset>',
+      '',
+    ].join('\n');
+  }
+
+  private index(pages: SitemapDocument[]) {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...pages.map((page, index) =>
+        [
+          '  <sitemap>',
+          `    <loc>${escapeHtml(this.urls.api(`sitemap-${index + 1}.xml`))}</loc>`,
+          `    <lastmod>${page.lastModified.toISOString()}</lastmod>`,
+          '  </sitemap>',
+        ].join('\n'),
+      ),
+      '</sitemapindex>',
+      '',
+    ].join('\n');
+  }
+}
@@ -0,0 +1,12 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+
+export class FindTagsQueryDto extends PaginationQueryDto {
+  // Only tags whose name starts with q, for autocompletion
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  q?: string;
+}
@@ -0,0 +1,11 @@
+import { IsInt, IsNotEmpty, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class MergeTagDto {
+  // Tag that takes over the posts of the merged tag
+  @Type(() => Number)
+  @IsInt()
+  @IsNotEmpty()
+  @IsPositive()
+  targetTagId: number;
+}
@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { TagsService } from './tags.service';
+import { FindTagsQueryDto } from './dto/find-tags-query.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+
+@Controller('tags')
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  // GET ALL TAGS WITH USAGE COUNTS
+  @Public()
+  @Get()
+  @UseInterceptors(PaginationLinksInterceptor)
+  findAll(@Query() query: FindTagsQueryDto) {
+    return this.tagsService.findAll(query);
+  }
+
+  // GET PUBLISHED POSTS WITH A TAG
+  @Public()
+  @Get(':slug/posts')
+  @UseInterceptors(PaginationLinksInterceptor)
+  findPosts(@Param('slug') slug: string, @Query() query: PaginationQueryDto) {
+    return this.tagsService.findPosts(slug, query);
+  }
+
+  // MERGE A TAG INTO ANOTHER TAG
+  // ONLY ADMIN CAN MERGE TAGS
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  merge(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() mergeTagDto: MergeTagDto,
+  ) {
+    return this.tagsService.merge(id, mergeTagDto);
+  }
+
+  // DELETE A TAG
+  // ONLY ADMIN CAN DELETE A TAG
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Delete(':id')
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.tagsService.remove(id);
+  }
+}
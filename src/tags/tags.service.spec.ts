@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { TagsService } from './tags.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('TagsService', () => {
+  let service: TagsService;
+
+  const mockPrismaService = {
+    tag: {
+      upsert: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      delete: jest.fn(),
+    },
+    post: { count: jest.fn(), update: jest.fn() },
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+
+  const transactionClient =
+    mockPrismaService as unknown as Prisma.TransactionClient;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(
+      (callback: (prisma: typeof mockPrismaService) => unknown) =>
+        callback(mockPrismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('normalizes case and whitespace in tag names', () => {
+    expect(service.normalizeName('  Node   JS ')).toBe('node js');
+    expect(service.toSlug('  Node   JS ')).toBe('node-js');
+  });
+
+  it('resolves names that only differ in formatting to one tag', async () => {
+    mockPrismaService.tag.upsert.mockResolvedValue({ id: 1 });
+
+    const tags = await service.resolveTags(transactionClient, [
+      'TypeScript',
+      ' typescript ',
+    ]);
+
+    expect(tags).toEqual([{ id: 1 }]);
+    expect(mockPrismaService.tag.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.tag.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { slug: 'typescript' },
+        create: { name: 'typescript', slug: 'typescript' },
+      }),
+    );
+  });
+
+  it('rejects tag names without letters or digits', async () => {
+    await expect(
+      service.resolveTags(transactionClient, ['!!!']),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('keeps tags that only differ in + or # apart', async () => {
+    expect(service.toSlug('C++')).toBe('cpp');
+    expect(service.toSlug('C#')).toBe('csharp');
+    expect(service.toSlug('C')).toBe('c');
+    // A leading hash is just hashtag notation
+    expect(service.toSlug('#NestJS')).toBe('nestjs');
+
+    mockPrismaService.tag.upsert.mockResolvedValue({ id: 1 });
+    await service.resolveTags(transactionClient, ['C++', 'C#', 'C']);
+    expect(mockPrismaService.tag.upsert).toHaveBeenCalledTimes(3);
+  });
+
+  it('merges a tag by retagging its posts in bulk', async () => {
+    mockPrismaService.tag.findUnique
+      .mockResolvedValueOnce({ id: 1, name: 'js' })
+      .mockResolvedValueOnce({ id: 2, name: 'javascript' });
+    mockPrismaService.post.count.mockResolvedValue(250);
+
+    await expect(service.merge(1, { targetTagId: 2 })).resolves.toEqual({
+      message: 'Tag "js" merged into "javascript"',
+      tag: { id: 2, name: 'javascript' },
+      movedPosts: 250,
+    });
+    expect(mockPrismaService.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(mockPrismaService.post.update).not.toHaveBeenCalled();
+    expect(mockPrismaService.tag.delete).toHaveBeenCalledWith({
+      where: { id: 1 },
+    });
+  });
+});
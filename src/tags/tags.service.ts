@@ -0,0 +1,171 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { FindTagsQueryDto } from './dto/find-tags-query.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/pagination';
+import { slugify } from '../common/utils/slug.util';
+
+export const TAG_NAME_MAX_LENGTH = 50;
+
+@Injectable()
+export class TagsService {
+  constructor(private prisma: PrismaService) {}
+
+  // GET ALL TAGS WITH THE NUMBER OF PUBLISHED POSTS USING THEM
+  async findAll(query: FindTagsQueryDto) {
+    const where: Prisma.TagWhereInput = query.q
+      ? { name: { startsWith: this.normalizeName(query.q) } }
+      : {};
+
+    const page = await paginate(
+      query,
+      (page) =>
+        this.prisma.tag.findMany({
+          ...page,
+          where,
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+            _count: {
+              select: {
+                posts: {
+                  where: { status: PostStatus.PUBLISHED, deletedAt: null },
+                },
+              },
+            },
+          },
+          orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        }),
+      () => this.prisma.tag.count({ where }),
+    );
+
+    return {
+      ...page,
+      data: page.data.map(({ _count, ...tag }) => ({
+        ...tag,
+        postCount: _count.posts,
+      })),
+    };
+  }
+
+  // GET PUBLISHED POSTS WITH A TAG (newest first)
+  async findPosts(slug: string, query: PaginationQueryDto) {
+    const tag = await this.prisma.tag.findUnique({
+      where: { slug },
+      select: { id: true, name: true, slug: true },
+    });
+    if (!tag) throw new NotFoundException(`Tag "${slug}" not found`);
+
+    const where = {
+      status: PostStatus.PUBLISHED,
+      deletedAt: null,
+      tags: { some: { id: tag.id } },
+    };
+    const posts = await paginate(
+      query,
+      (page) =>
+        this.prisma.post.findMany({
+          ...page,
+          where,
+          include: {
+            author: { select: { id: true, name: true } },
+            categories: { select: { id: true, name: true } },
+            tags: { select: { id: true, name: true, slug: true } },
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      () => this.prisma.post.count({ where }),
+    );
+
+    return { tag, ...posts };
+  }
+
+  // MERGE A TAG INTO ANOTHER ONE, its posts move to the target and the tag is deleted
+  async merge(id: number, mergeTagDto: MergeTagDto) {
+    const { targetTagId } = mergeTagDto;
+    if (id === targetTagId)
+      throw new BadRequestException('A tag cannot be merged into itself');
+
+    const [source, target] = await Promise.all([
+      this.prisma.tag.findUnique({ where: { id } }),
+      this.prisma.tag.findUnique({ where: { id: targetTagId } }),
+    ]);
+    if (!source) throw new NotFoundException(`Tag with ID ${id} not found`);
+    if (!target)
+      throw new NotFoundException(`Tag with ID ${targetTagId} not found`);
+
+    return await this.prisma.$transaction(async (prisma) => {
+      const movedPosts = await prisma.post.count({
+        where: { tags: { some: { id } } },
+      });
+
+      // Retag on the join table in one statement (A = post, B = tag), posts that already have the target are skipped
+      await prisma.$executeRaw`
+        INSERT IGNORE INTO _PostToTag (A, B)
+        SELECT A, ${targetTagId} FROM _PostToTag WHERE B = ${id}`;
+      // Deleting the tag removes its remaining join rows
+      await prisma.tag.delete({ where: { id } });
+
+      return {
+        message: `Tag "${source.name}" merged into "${target.name}"`,
+        tag: target,
+        movedPosts,
+      };
+    });
+  }
+
+  // DELETE A TAG (posts keep their other tags)
+  async remove(id: number) {
+    const tag = await this.prisma.tag.findUnique({ where: { id } });
+    if (!tag) throw new NotFoundException(`Tag with ID ${id} not found`);
+
+    return this.prisma.tag.delete({ where: { id } });
+  }
+
+  // Find or create the tags for a list of tag names, returns their ids for connecting to a post
+  async resolveTags(prisma: Prisma.TransactionClient, names: string[]) {
+    const tags = new Map<string, string>();
+    for (const rawName of names) {
+      const name = this.normalizeName(rawName);
+      const slug = this.toSlug(name);
+      if (!slug)
+        throw new BadRequestException(
+          `Tag "${rawName}" must contain at least one letter or digit`,
+        );
+      // Names that only differ in case, spacing or punctuation are the same tag
+      if (!tags.has(slug)) tags.set(slug, name);
+    }
+
+    const resolved: { id: number }[] = [];
+    for (const [slug, name] of tags) {
+      const tag = await prisma.tag.upsert({
+        where: { slug },
+        create: { name, slug },
+        update: {},
+        select: { id: true },
+      });
+      resolved.push(tag);
+    }
+    return resolved;
+  }
+
+  // Tags are stored lower case with single spaces, e.g. "  Node   JS " -> "node js"
+  normalizeName(name: string) {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  // Symbols that tell languages apart are spelled out so they don't collapse into one slug, e.g. "c++" -> "cpp", "c#" -> "csharp"
+  toSlug(name: string) {
+    const spelled = this.normalizeName(name)
+      .replace(/(?<=[a-z0-9+])\+/g, 'p')
+      .replace(/(?<=[a-z0-9])#/g, 'sharp');
+    return slugify(spelled, TAG_NAME_MAX_LENGTH);
+  }
+}
@@ -0,0 +1,10 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ReactionType } from '@prisma/client';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+
+export class FindUserLikesQueryDto extends PaginationQueryDto {
+  // Only list reactions of this type, e.g. type=LOVE
+  @IsOptional()
+  @IsEnum(ReactionType)
+  type?: ReactionType;
+}
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
 
 describe('UsersController', () => {
   let controller: UsersController;
@@ -17,11 +18,14 @@ describe('UsersController', () => {
     },
   };
 
+  const mockSitemapService = { invalidate: jest.fn() };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [UsersController],
       providers: [
         UsersService,
+        { provide: SitemapService, useValue: mockSitemapService },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
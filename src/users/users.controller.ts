@@ -8,12 +8,12 @@ import {
   Delete,
   ParseIntPipe,
   Query,
-  DefaultValuePipe,
   ParseBoolPipe,
   HttpCode,
   HttpStatus,
   UseGuards,
   ForbiddenException,
+  UseInterceptors,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
@@ -22,6 +22,9 @@ import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { Roles } from 'src/auth/decorators/roles.decorator';
 import { UserRole } from '@prisma/client';
 import { CurrentUser } from 'src/auth/decorators/current-use.decorator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { PaginationLinksInterceptor } from 'src/common/pagination/pagination-links.interceptor';
+import { FindUserLikesQueryDto } from './dto/find-user-likes-query.dto';
 
 @Controller('users')
 export class UsersController {
@@ -36,15 +39,13 @@ export class UsersController {
     return this.usersService.create(createUserDto);
   }
 
-  // GET ALL USERS (optional filters: published, pagination)
+  // GET ALL USERS (offset or cursor pagination)
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN)
   @Get()
-  findAll(
-    @Query('skip', new DefaultValuePipe(0), ParseIntPipe) skip?: number,
-    @Query('take', new DefaultValuePipe(10), ParseIntPipe) take?: number,
-  ) {
-    return this.usersService.findAll(skip, take);
+  @UseInterceptors(PaginationLinksInterceptor)
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.usersService.findAll(query);
   }
 
   // GET USER STATISTICS
@@ -56,6 +57,16 @@ export class UsersController {
     return this.usersService.getUserStats(id, user.id, user.role);
   }
 
+  // GET POSTS A USER REACTED TO
+  @Get(':id/likes')
+  @UseInterceptors(PaginationLinksInterceptor)
+  findLikes(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: FindUserLikesQueryDto,
+  ) {
+    return this.usersService.findLikes(id, query);
+  }
+
   // GET A SINGLE USER
   @Get(':id')
   findOne(
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
+import { SitemapModule } from '../sitemap/sitemap.module';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 
 @Module({
+  imports: [SitemapModule],
   controllers: [UsersController],
   providers: [UsersService],
 })
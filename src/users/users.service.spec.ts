@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersService } from './users.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { SitemapService } from '../sitemap/sitemap.service';
 
 describe('UsersService', () => {
   let service: UsersService;
@@ -15,10 +16,13 @@ describe('UsersService', () => {
     },
   };
 
+  const mockSitemapService = { invalidate: jest.fn() };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         UsersService,
+        { provide: SitemapService, useValue: mockSitemapService },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -32,4 +36,12 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('drops the cached sitemap when a user and their posts are deleted', async () => {
+    mockPrismaService.user.delete.mockResolvedValue({ id: 2 });
+
+    await service.remove(2, 1);
+
+    expect(mockSitemapService.invalidate).toHaveBeenCalled();
+  });
 });
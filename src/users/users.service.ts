@@ -10,11 +10,18 @@ import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import * as argon2 from 'argon2';
 import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
-import { UserRole } from '@prisma/client';
+import { PostAuthorRole, PostStatus, UserRole } from '@prisma/client';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/pagination';
+import { FindUserLikesQueryDto } from './dto/find-user-likes-query.dto';
+import { SitemapService } from '../sitemap/sitemap.service';
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private sitemapService: SitemapService,
+  ) {}
 
   private userSelect = {
     id: true,
@@ -63,34 +70,34 @@ export class UsersService {
     }
   }
 
-  // GET ALL USERS (supports pagination)
-  async findAll(skip?: number, take?: number) {
-    const offset = skip ?? 0;
-    const limit = Math.min(take ?? 10, 100);
-
-    const users = await this.prisma.user.findMany({
-      skip: offset,
-      take: limit,
-      select: {
-        ...this.userSelect,
-        posts: {
+  // GET ALL USERS (supports offset or cursor pagination)
+  async findAll(query: PaginationQueryDto) {
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.user.findMany({
+          ...page,
           select: {
-            id: true,
-            title: true,
-            published: true,
-            viewCount: true,
-            createdAt: true,
-            updatedAt: true,
-            categories: {
-              select: { id: true, name: true },
+            ...this.userSelect,
+            posts: {
+              where: { deletedAt: null },
+              select: {
+                id: true,
+                title: true,
+                status: true,
+                viewCount: true,
+                createdAt: true,
+                updatedAt: true,
+                categories: {
+                  select: { id: true, name: true },
+                },
+              },
             },
           },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    return users;
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      () => this.prisma.user.count(),
+    );
   }
 
   // GET A SINGLE USER
@@ -108,11 +115,12 @@ export class UsersService {
       select: {
         ...this.userSelect,
         posts: {
+          where: { deletedAt: null },
           select: {
             id: true,
             title: true,
             content: true,
-            published: true,
+            status: true,
             viewCount: true,
             createdAt: true,
             updatedAt: true,
@@ -191,7 +199,7 @@ export class UsersService {
     }
   }
 
-  // DELETE A USER
+  // DELETE A USER (their posts are deleted with them)
   async remove(id: number, currentUserId: number) {
     try {
       // Prevent self-deletion for admins
@@ -202,6 +210,7 @@ export class UsersService {
         where: { id },
         select: this.userSelect,
       });
+      this.sitemapService.invalidate();
       return user;
     } catch (error: any) {
       if (
@@ -214,6 +223,45 @@ export class UsersService {
     }
   }
 
+  // GET POSTS A USER REACTED TO (newest reaction first, published posts only)
+  async findLikes(id: number, query: FindUserLikesQueryDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!user) throw new NotFoundException(`User with ID ${id} not found`);
+
+    const where = {
+      userId: id,
+      type: query.type,
+      post: { status: PostStatus.PUBLISHED, deletedAt: null },
+    };
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.postReaction.findMany({
+          ...page,
+          where,
+          select: {
+            id: true,
+            type: true,
+            createdAt: true,
+            post: {
+              select: {
+                id: true,
+                title: true,
+                slug: true,
+                author: { select: { id: true, name: true } },
+              },
+            },
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      () => this.prisma.postReaction.count({ where }),
+    );
+  }
+
   // GET USER STATISTICS
   async getUserStats(id: number, currentUserId: number, userRole?: UserRole) {
     // Check if its Admin or Owner
@@ -226,14 +274,13 @@ export class UsersService {
 
     const stats = await this.prisma.user.findUnique({
       where: { id },
-      include: {
-        _count: {
-          select: { posts: true },
-        },
-        posts: {
+      select: {
+        // Co-authored posts count towards every author credited on them
+        postAuthorships: {
+          where: { post: { deletedAt: null } },
           select: {
-            viewCount: true,
-            published: true,
+            role: true,
+            post: { select: { viewCount: true, status: true } },
           },
         },
       },
@@ -243,15 +290,20 @@ export class UsersService {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
 
-    const totalViews = stats.posts.reduce(
-      (sum, post) => sum + post.viewCount,
-      0,
-    );
-    const publishedPosts = stats.posts.filter((post) => post.published).length;
+    const posts = stats.postAuthorships.map((authorship) => authorship.post);
+    const totalViews = posts.reduce((sum, post) => sum + post.viewCount, 0);
+    const publishedPosts = posts.filter(
+      (post) => post.status === PostStatus.PUBLISHED,
+    ).length;
+    const coAuthoredPosts = stats.postAuthorships.filter(
+      (authorship) => authorship.role === PostAuthorRole.CONTRIBUTOR,
+    ).length;
 
     return {
       userId: id,
-      totalPosts: stats._count.posts,
+      totalPosts: posts.length,
+      ownedPosts: posts.length - coAuthoredPosts,
+      coAuthoredPosts,
       publishedPosts,
       totalViews,
     };